@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb, getRequestUser } from '@/lib/firebase-admin';
+import type { Post } from '@/lib/types';
+
+const appealInputSchema = z.object({
+  postId: z.string().min(1),
+  // Set when the appeal is against one of the post's images rather than the post itself.
+  imageUrl: z.string().url().nullable().optional(),
+  message: z.string().trim().min(1).max(1000),
+});
+
+// Files an appeal against the rejection of a post or one of its images. Only the author can
+// appeal, only a rejected target can be appealed, and each rejection can be appealed once.
+export async function POST(request: Request) {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) {
+    return NextResponse.json({ error: 'You must be signed in to appeal.' }, { status: 401 });
+  }
+
+  const parsed = appealInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid appeal.' }, { status: 400 });
+  }
+  const { postId, message } = parsed.data;
+  const imageUrl = parsed.data.imageUrl || null;
+
+  const postRef = adminDb.collection('posts').doc(postId);
+  const appealRef = adminDb.collection('appeals').doc();
+
+  try {
+    await adminDb.runTransaction(async (transaction) => {
+      const postDoc = await transaction.get(postRef);
+      if (!postDoc.exists) {
+        throw new Error('post-not-found');
+      }
+      const post = postDoc.data() as Post;
+      if (post.authorUid !== requestUser.uid) {
+        throw new Error('not-author');
+      }
+
+      const images = post.images || [];
+      const image = imageUrl ? images.find(img => img.url === imageUrl) : null;
+      const target = imageUrl ? image : post;
+      if (!target || target.status !== 'rejected') {
+        throw new Error('not-rejected');
+      }
+      if (target.appealStatus === 'pending' || target.appealStatus === 'upheld') {
+        throw new Error('already-appealed');
+      }
+
+      transaction.set(appealRef, {
+        targetType: imageUrl ? 'image' : 'post',
+        postId,
+        postTitle: post.title,
+        imageUrl,
+        authorUid: requestUser.uid,
+        message,
+        rejectionReason: target.rejectionReason ?? null,
+        moderationReason: imageUrl ? null : post.moderationReason ?? null,
+        status: 'pending',
+        createdAt: FieldValue.serverTimestamp(),
+      });
+
+      if (imageUrl) {
+        transaction.update(postRef, {
+          images: images.map(img => img.url === imageUrl ? { ...img, appealStatus: 'pending' } : img),
+        });
+      } else {
+        transaction.update(postRef, { appealStatus: 'pending' });
+      }
+    });
+
+    return NextResponse.json({ id: appealRef.id });
+  } catch (error: any) {
+    switch (error?.message) {
+      case 'post-not-found':
+        return NextResponse.json({ error: 'This post does not exist.' }, { status: 404 });
+      case 'not-author':
+        return NextResponse.json({ error: 'You can only appeal decisions on your own posts.' }, { status: 403 });
+      case 'not-rejected':
+        return NextResponse.json({ error: 'Only rejected posts and images can be appealed.' }, { status: 409 });
+      case 'already-appealed':
+        return NextResponse.json({ error: 'This decision has already been appealed.' }, { status: 409 });
+    }
+    console.error('Error filing appeal:', error);
+    return NextResponse.json({ error: 'Could not submit appeal.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { getRequestAdmin, adminDb } from '@/lib/firebase-admin';
+import { defaultProviders, moderatePost } from '@/lib/moderation';
+import { applyModerationOverrides, loadModerationSettings, moderationOverridesSchema } from '@/lib/moderation/server';
+import type { Post } from '@/lib/types';
+
+const dryRunSchema = z.object({
+  overrides: moderationOverridesSchema,
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+// The external API is billed per call, so it's left out of dry runs.
+const dryRunProviders = defaultProviders.filter(provider => provider.id !== 'external_api');
+
+// Re-checks the latest approved posts with a proposed rule change and lists the ones it would flag,
+// so an admin can spot false positives before saving.
+export async function POST(request: Request) {
+  const admin = await getRequestAdmin(request, 'manage_forbidden_words', 'manage_protected_names', 'manage_allowlist');
+  if (!admin) {
+    return NextResponse.json({ error: 'Only admins can run content checks.' }, { status: 403 });
+  }
+
+  const parsed = dryRunSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request.' }, { status: 400 });
+  }
+  const { overrides, limit } = parsed.data;
+
+  try {
+    const currentSettings = await loadModerationSettings();
+    const draftSettings = applyModerationOverrides(currentSettings, overrides);
+
+    const snapshot = await adminDb.collection('posts')
+      .where('status', '==', 'approved')
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+
+    const results = await Promise.all(snapshot.docs.map(async (doc) => {
+      const post = doc.data() as Post;
+      const input = { title: post.title, content: post.content, customFields: post.customFields };
+      const [current, draft] = await Promise.all([
+        moderatePost(input, currentSettings, dryRunProviders),
+        moderatePost(input, draftSettings, dryRunProviders),
+      ]);
+      return {
+        id: doc.id,
+        title: post.title,
+        currentStatus: current.status,
+        draftStatus: draft.status,
+        reason: draft.reason,
+        reasons: draft.checks.filter(check => check.fired).flatMap(check => check.reasons),
+      };
+    }));
+
+    return NextResponse.json({
+      checked: snapshot.size,
+      flagged: results.filter(result => result.draftStatus !== 'approved'),
+    });
+  } catch (error) {
+    console.error('Error running moderation dry run:', error);
+    return NextResponse.json({ error: 'Could not run the dry run.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb, getRequestAdmin, getRequestUser } from '@/lib/firebase-admin';
+import { MAX_COMMENT_DEPTH, type Comment } from '@/lib/types';
+
+// Firestore caps `in` queries at 30 values.
+const PARENT_QUERY_SIZE = 30;
+
+// Deletes a comment together with its replies and takes them all off the post's comment count.
+// Authors can delete their own comments, and admins with the delete_comments permission can
+// delete any comment.
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) {
+    return NextResponse.json({ error: 'You must be signed in to delete a comment.' }, { status: 401 });
+  }
+
+  const commentRef = adminDb.collection('comments').doc(params.id);
+
+  try {
+    const commentSnap = await commentRef.get();
+    if (!commentSnap.exists) {
+      return NextResponse.json({ error: 'This comment does not exist.' }, { status: 404 });
+    }
+    const comment = commentSnap.data() as Comment;
+    if (comment.userId !== requestUser.uid && !(await getRequestAdmin(request, 'delete_comments'))) {
+      return NextResponse.json({ error: 'You do not have permission to delete this comment.' }, { status: 403 });
+    }
+
+    const postRef = adminDb.collection('posts').doc(comment.postId);
+    let deleted = 0;
+    await adminDb.runTransaction(async (transaction) => {
+      // Read again inside the transaction so two deletes can't both decrement the count.
+      const [currentComment, postDoc] = await Promise.all([transaction.get(commentRef), transaction.get(postRef)]);
+      if (!currentComment.exists) return;
+
+      // Replies only nest MAX_COMMENT_DEPTH deep, so the subtree is found one level at a time.
+      const subtree = [currentComment];
+      let parentIds = [currentComment.id];
+      for (let level = 0; level < MAX_COMMENT_DEPTH && parentIds.length > 0; level++) {
+        const chunks: string[][] = [];
+        for (let i = 0; i < parentIds.length; i += PARENT_QUERY_SIZE) {
+          chunks.push(parentIds.slice(i, i + PARENT_QUERY_SIZE));
+        }
+        const snapshots = await Promise.all(chunks.map(chunk => transaction.get(
+          adminDb.collection('comments').where('parentId', 'in', chunk)
+        )));
+        const replies = snapshots.flatMap(snapshot => snapshot.docs);
+        subtree.push(...replies);
+        parentIds = replies.map(reply => reply.id);
+      }
+
+      subtree.forEach(doc => transaction.delete(doc.ref));
+      deleted = subtree.length;
+      // Shadow comments were never counted.
+      const counted = subtree.filter(doc => (doc.data() as Comment).visibility !== 'shadow').length;
+      const commentCount = postDoc.data()?.commentCount || 0;
+      if (postDoc.exists && counted > 0 && commentCount > 0) {
+        transaction.update(postRef, { commentCount: FieldValue.increment(-Math.min(counted, commentCount)) });
+      }
+    });
+
+    return NextResponse.json({ id: params.id, deleted });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    return NextResponse.json({ error: 'Could not delete comment.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminAuth, adminDb, getRequestUser, getUserRestriction } from '@/lib/firebase-admin';
+import { blocksActivity, isShadowbanned, restrictionMessage } from '@/lib/restrictions';
+import { moderatePost } from '@/lib/moderation';
+import { loadModerationSettings } from '@/lib/moderation/server';
+import { consumeRateLimit, rateLimitedResponse } from '@/lib/rate-limit/server';
+import { MAX_COMMENT_DEPTH, type Comment } from '@/lib/types';
+
+const commentInputSchema = z.object({
+  postId: z.string().min(1),
+  content: z.string().trim().min(1).max(499),
+  // Set when replying to another comment on the same post.
+  parentId: z.string().min(1).optional(),
+});
+
+// Adds a comment. Comments go through the same filters as posts, but since they have no
+// review queue anything that would not be approved straight away is refused.
+export async function POST(request: Request) {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) {
+    return NextResponse.json({ error: 'You must be signed in to comment.' }, { status: 401 });
+  }
+
+  const parsed = commentInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid comment.' }, { status: 400 });
+  }
+  const { postId, content, parentId } = parsed.data;
+
+  try {
+    const restriction = await getUserRestriction(requestUser.uid);
+    if (restriction && blocksActivity(restriction)) {
+      return NextResponse.json({ error: restrictionMessage(restriction) }, { status: 403 });
+    }
+    const retryAt = await consumeRateLimit(requestUser, 'comments');
+    if (retryAt) {
+      return rateLimitedResponse(retryAt);
+    }
+    const shadow = isShadowbanned(restriction);
+
+    const settings = await loadModerationSettings();
+    const moderation = await moderatePost({ title: '', content }, settings);
+    if (moderation.status !== 'approved') {
+      const error = moderation.reason === 'forbidden_words'
+        ? `Your comment contains words that are not allowed: ${moderation.matches.join(', ')}.`
+        : 'Your comment was blocked by the content filters.';
+      return NextResponse.json({ error, reason: moderation.reason, matches: moderation.matches }, { status: 422 });
+    }
+
+    const author = await adminAuth.getUser(requestUser.uid);
+    const postRef = adminDb.collection('posts').doc(postId);
+    const commentRef = adminDb.collection('comments').doc();
+
+    await adminDb.runTransaction(async (transaction) => {
+      const [postDoc, parentDoc] = await Promise.all([
+        transaction.get(postRef),
+        parentId ? transaction.get(adminDb.collection('comments').doc(parentId)) : null,
+      ]);
+      if (!postDoc.exists || postDoc.data()?.status !== 'approved') {
+        throw new Error('post-not-found');
+      }
+
+      let thread: Pick<Comment, 'parentId' | 'depth' | 'replyToName'> = { parentId: null, depth: 0 };
+      if (parentDoc) {
+        const parent = parentDoc.data() as Comment | undefined;
+        if (!parent || parent.postId !== postId) {
+          throw new Error('parent-not-found');
+        }
+        const parentDepth = parent.depth || 0;
+        thread = parentDepth < MAX_COMMENT_DEPTH
+          ? { parentId: parentDoc.id, depth: parentDepth + 1 }
+          // Too deep to nest further: answer alongside the parent and say who to.
+          : { parentId: parent.parentId || null, depth: parentDepth, replyToName: parent.authorDisplayName || null };
+      }
+
+      const commentData = {
+        postId,
+        ...thread,
+        content,
+        createdAt: FieldValue.serverTimestamp(),
+        userId: requestUser.uid,
+        authorDisplayName: author.displayName,
+        visibility: shadow ? 'shadow' : 'public',
+      };
+      transaction.set(commentRef, Object.fromEntries(
+        Object.entries(commentData).filter(([_, v]) => v !== undefined)
+      ));
+      // Nobody else can see a shadowbanned user's comment, so it doesn't count either.
+      if (!shadow) {
+        transaction.update(postRef, { commentCount: FieldValue.increment(1) });
+      }
+    });
+
+    return NextResponse.json({ id: commentRef.id });
+  } catch (error: any) {
+    if (error?.message === 'post-not-found') {
+      return NextResponse.json({ error: 'This post does not exist.' }, { status: 404 });
+    }
+    if (error?.message === 'parent-not-found') {
+      return NextResponse.json({ error: 'The comment you are replying to no longer exists.' }, { status: 404 });
+    }
+    console.error('Error adding comment:', error);
+    return NextResponse.json({ error: 'Could not post comment.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { ImageResponse } from 'next/og';
+import type { ReactElement } from 'react';
+import { getPublicPost } from '@/lib/posts/server';
+import { isLocale, isRtl, translate } from '@/lib/i18n';
+import { DEFAULT_COLOR_THEME, isColorTheme, type ColorTheme } from '@/lib/themes';
+import { categoryIcons } from '@/components/feed/category-icons';
+
+// The size WhatsApp, X and Facebook all crop previews to.
+const WIDTH = 1200;
+const HEIGHT = 630;
+const MAX_TITLE_LENGTH = 90;
+
+// The dark variant of each theme in globals.css, which stands out best in a chat.
+const PALETTES: Record<ColorTheme, { background: string; card: string; foreground: string; muted: string; primary: string }> = {
+  purple: { background: 'hsl(270, 40%, 5%)', card: 'hsl(270, 40%, 10%)', foreground: 'hsl(270, 20%, 95%)', muted: 'hsl(270, 15%, 60%)', primary: 'hsl(270, 80%, 70%)' },
+  green: { background: 'hsl(140, 80%, 5%)', card: 'hsl(140, 80%, 10%)', foreground: 'hsl(140, 10%, 95%)', muted: 'hsl(140, 10%, 60%)', primary: 'hsl(150, 70%, 50%)' },
+  slate: { background: 'hsl(220, 30%, 6%)', card: 'hsl(220, 30%, 11%)', foreground: 'hsl(220, 10%, 95%)', muted: 'hsl(220, 10%, 60%)', primary: 'hsl(75, 90%, 50%)' },
+};
+
+// Satori only renders plain function components, and lucide icons are forwardRef components.
+// Unwraps them down to the <svg> they render.
+function plainElement(element: ReactElement): ReactElement {
+  const type = element.type as unknown;
+  if (type && typeof type === 'object' && 'render' in type) {
+    const render = (type as { render: (props: unknown, ref: null) => ReactElement }).render;
+    return plainElement(render(element.props, null));
+  }
+  return element;
+}
+
+// A branded preview card for a shared post, in the sharer's language and color theme:
+// /api/og/<postId>?lang=ar&theme=green
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const post = await getPublicPost(params.id);
+  // Same rule as the page metadata: nothing about unpublished posts leaves the server.
+  if (!post) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const lang = searchParams.get('lang');
+  const theme = searchParams.get('theme');
+  const locale = isLocale(lang) ? lang : 'en';
+  const palette = PALETTES[isColorTheme(theme) ? theme : DEFAULT_COLOR_THEME];
+  const rtl = isRtl(locale);
+  const align = rtl ? 'flex-end' : 'flex-start';
+
+  const title = post.title.length > MAX_TITLE_LENGTH ? `${post.title.slice(0, MAX_TITLE_LENGTH).trimEnd()}…` : post.title;
+  const image = post.imageUrls[0];
+  const CategoryIcon = post.category ? categoryIcons[post.category] : null;
+
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: rtl ? 'row-reverse' : 'row', background: palette.background, color: palette.foreground }}>
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'space-between', alignItems: align, padding: 64 }}>
+          <div style={{ display: 'flex', fontSize: 32, fontWeight: 700, color: palette.primary }}>
+            {translate(locale, 'appName')}
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: align, gap: 24 }}>
+            {post.category && CategoryIcon && (
+              <div style={{ display: 'flex', flexDirection: rtl ? 'row-reverse' : 'row', alignItems: 'center', gap: 12, padding: '8px 20px', borderRadius: 999, background: palette.card, color: palette.primary, fontSize: 28 }}>
+                {plainElement(<CategoryIcon size={32} color={palette.primary} />)}
+                <span>{translate(locale, `categories.${post.category}`)}</span>
+              </div>
+            )}
+            <div style={{ display: 'flex', fontSize: title.length > 50 ? 56 : 72, fontWeight: 700, lineHeight: 1.1, textAlign: rtl ? 'right' : 'left' }}>
+              {title}
+            </div>
+          </div>
+          <div style={{ display: 'flex', fontSize: 32, color: palette.muted }}>
+            {translate(locale, 'og.score', { score: String(post.score) })}
+          </div>
+        </div>
+        {image && (
+          <img src={image} alt="" width={HEIGHT} height={HEIGHT} style={{ objectFit: 'cover' }} />
+        )}
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      // Posts can be edited, so previews shouldn't be cached for good.
+      headers: { 'Cache-Control': 'public, max-age=3600' },
+    }
+  );
+}
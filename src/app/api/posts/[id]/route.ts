@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb, getRequestUser, getUserRestriction } from '@/lib/firebase-admin';
+import { blocksActivity, restrictionMessage } from '@/lib/restrictions';
+import { postInputSchema } from '@/lib/post-input';
+import { moderatePost } from '@/lib/moderation';
+import { loadModerationSettings } from '@/lib/moderation/server';
+import { searchTokens } from '@/lib/search';
+import type { Post, PostImage } from '@/lib/types';
+
+// Edits a post. The edited content goes through the same moderation as a new post.
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) {
+    return NextResponse.json({ error: 'You must be signed in to edit a post.' }, { status: 401 });
+  }
+
+  const parsed = postInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid post data.' }, { status: 400 });
+  }
+  const data = parsed.data;
+
+  try {
+    const restriction = await getUserRestriction(requestUser.uid);
+    if (restriction && blocksActivity(restriction)) {
+      return NextResponse.json({ error: restrictionMessage(restriction) }, { status: 403 });
+    }
+
+    const postRef = adminDb.collection('posts').doc(params.id);
+    const postSnap = await postRef.get();
+    if (!postSnap.exists) {
+      return NextResponse.json({ error: 'This post does not exist.' }, { status: 404 });
+    }
+    const post = postSnap.data() as Post;
+    if (post.authorUid !== requestUser.uid) {
+      return NextResponse.json({ error: 'You can only edit your own posts.' }, { status: 403 });
+    }
+
+    const settings = await loadModerationSettings();
+    const moderation = await moderatePost(data, settings);
+
+    // A post waiting for an admin (flagged words, too many reports) can't approve itself by being edited,
+    // and a rejected post that the author fixed goes back to the review queue rather than straight to the feed.
+    if (moderation.status === 'approved' && (post.status === 'pending' || post.status === 'rejected')) {
+      moderation.status = 'pending';
+      moderation.isFlagged = post.isFlagged;
+    }
+
+    const existingImages = post.images || [];
+    const currentImageUrls = data.imageUrls || [];
+
+    const newImages: PostImage[] = currentImageUrls.map(url => {
+        const existing = existingImages.find(img => img.url === url);
+        return existing ? existing : { url, status: 'pending' as const };
+    });
+
+    const filteredCustomFields = data.customFields?.filter(
+      field => field.label.trim() !== '' && field.value.trim() !== ''
+    );
+
+    const updatedData = {
+      title: data.title,
+      content: data.content,
+      category: data.category,
+      eventDate: data.eventDate ? Timestamp.fromDate(new Date(data.eventDate)) : null,
+      customFields: filteredCustomFields,
+      searchTokens: searchTokens({ title: data.title, content: data.content, customFields: filteredCustomFields }),
+      images: newImages,
+      hasPendingImages: newImages.some(img => img.status === 'pending'),
+      status: moderation.status,
+      isFlagged: moderation.isFlagged,
+      moderationReason: moderation.reason ?? (moderation.status === 'pending' ? post.moderationReason ?? null : null),
+      // Editing is how an author resubmits, so the previous rejection no longer applies.
+      rejectionReason: null,
+      rejectionNote: null,
+      // An appeal still under review stays open; an upheld one doesn't stop the author appealing the next decision.
+      appealStatus: post.appealStatus === 'pending' ? 'pending' : null,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+
+    const cleanUpdatedData = Object.fromEntries(
+      Object.entries(updatedData).filter(([_, v]) => v !== undefined)
+    );
+
+    await postRef.update(cleanUpdatedData);
+    // The per-provider checks stay on the server; the author only needs the verdict.
+    const { status, isFlagged, reason, matches } = moderation;
+    return NextResponse.json({ id: postRef.id, status, isFlagged, reason, matches });
+  } catch (error) {
+    console.error('Error updating post:', error);
+    return NextResponse.json({ error: 'Could not update post.' }, { status: 500 });
+  }
+}
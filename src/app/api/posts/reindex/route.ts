@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { adminDb, getRequestAdmin } from '@/lib/firebase-admin';
+import { rankingFields } from '@/lib/ranking';
+import { searchTokens } from '@/lib/search';
+import type { Post } from '@/lib/types';
+
+// Firestore batches hold at most 500 writes.
+const PAGE_SIZE = 400;
+
+// Recomputes the stored rankings and search tokens of every post. Posts from before these were
+// stored have none, and are left out of the sort modes that order by them and out of search.
+// Also marks comments from before shadowbans as public, since the rules only show public ones.
+export async function POST(request: Request) {
+  const requestAdmin = await getRequestAdmin(request);
+  if (!requestAdmin) {
+    return NextResponse.json({ error: 'Only admins can reindex posts.' }, { status: 403 });
+  }
+
+  try {
+    let updated = 0;
+    let query = adminDb.collection('posts').orderBy('__name__').limit(PAGE_SIZE);
+    while (true) {
+      const snapshot = await query.get();
+      if (snapshot.empty) break;
+
+      const batch = adminDb.batch();
+      snapshot.docs.forEach(doc => {
+        const post = doc.data() as Post;
+        batch.update(doc.ref, {
+          ...rankingFields(post.upvotes || 0, post.downvotes || 0, post.createdAt?.toMillis() ?? Date.now()),
+          searchTokens: searchTokens(post),
+        });
+      });
+      await batch.commit();
+      updated += snapshot.size;
+
+      if (snapshot.size < PAGE_SIZE) break;
+      query = query.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+    }
+
+    let commentsUpdated = 0;
+    let commentsQuery = adminDb.collection('comments').orderBy('__name__').limit(PAGE_SIZE);
+    while (true) {
+      const snapshot = await commentsQuery.get();
+      if (snapshot.empty) break;
+
+      const missing = snapshot.docs.filter(doc => !doc.data().visibility);
+      if (missing.length > 0) {
+        const batch = adminDb.batch();
+        missing.forEach(doc => batch.update(doc.ref, { visibility: 'public' }));
+        await batch.commit();
+        commentsUpdated += missing.length;
+      }
+
+      if (snapshot.size < PAGE_SIZE) break;
+      commentsQuery = commentsQuery.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+    }
+    return NextResponse.json({ updated, commentsUpdated });
+  } catch (error) {
+    console.error('Error reindexing posts:', error);
+    return NextResponse.json({ error: 'Could not reindex posts.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminAuth, adminDb, getRequestUser, getUserRestriction } from '@/lib/firebase-admin';
+import { blocksActivity, isShadowbanned, restrictionMessage } from '@/lib/restrictions';
+import { postInputSchema } from '@/lib/post-input';
+import { moderatePost } from '@/lib/moderation';
+import { loadModerationSettings } from '@/lib/moderation/server';
+import { searchTokens } from '@/lib/search';
+import { consumeRateLimit, rateLimitedResponse } from '@/lib/rate-limit/server';
+import { rankingFields } from '@/lib/ranking';
+import type { PostImage } from '@/lib/types';
+
+// Creates a post. Moderation runs here so the client can't choose the post's status.
+export async function POST(request: Request) {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) {
+    return NextResponse.json({ error: 'You must be signed in to post.' }, { status: 401 });
+  }
+
+  const parsed = postInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid post data.' }, { status: 400 });
+  }
+  const data = parsed.data;
+
+  try {
+    const restriction = await getUserRestriction(requestUser.uid);
+    if (restriction && blocksActivity(restriction)) {
+      return NextResponse.json({ error: restrictionMessage(restriction) }, { status: 403 });
+    }
+    const retryAt = await consumeRateLimit(requestUser, 'posts');
+    if (retryAt) {
+      return rateLimitedResponse(retryAt);
+    }
+
+    const settings = await loadModerationSettings();
+    const moderation = await moderatePost(data, settings);
+
+    const images: PostImage[] | null = data.imageUrls && data.imageUrls.length > 0
+      ? data.imageUrls.map(url => ({ url, status: 'pending' as const }))
+      : null;
+
+    const filteredCustomFields = data.customFields?.filter(
+      field => field.label.trim() !== '' && field.value.trim() !== ''
+    );
+
+    const author = await adminAuth.getUser(requestUser.uid);
+
+    const postData = {
+      title: data.title,
+      content: data.content,
+      category: data.category,
+      eventDate: data.eventDate ? Timestamp.fromDate(new Date(data.eventDate)) : null,
+      customFields: filteredCustomFields,
+      searchTokens: searchTokens({ title: data.title, content: data.content, customFields: filteredCustomFields }),
+      images: images,
+      hasPendingImages: !!images,
+      authorUid: requestUser.uid,
+      authorDisplayName: author.displayName,
+      visibility: isShadowbanned(restriction) ? 'shadow' as const : 'public' as const,
+      isFlagged: moderation.isFlagged,
+      upvotes: 0,
+      downvotes: 0,
+      reports: 0,
+      commentCount: 0,
+      // Close enough to the server timestamp for ranking.
+      ...rankingFields(0, 0, Date.now()),
+      status: moderation.status,
+      moderationReason: moderation.reason,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+
+    const cleanPostData = Object.fromEntries(
+      Object.entries(postData).filter(([_, v]) => v !== undefined && v !== null)
+    );
+
+    const postRef = await adminDb.collection('posts').add(cleanPostData);
+    // The per-provider checks stay on the server; the author only needs the verdict.
+    const { status, isFlagged, reason, matches } = moderation;
+    return NextResponse.json({ id: postRef.id, status, isFlagged, reason, matches });
+  } catch (error) {
+    console.error('Error creating post:', error);
+    return NextResponse.json({ error: 'Could not create post.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { FieldValue, Timestamp, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb, getRequestAdmin } from '@/lib/firebase-admin';
+import { adminAuditEntry } from '@/lib/audit/server';
+import { activeRestriction, describeRestriction, isShadowbanned } from '@/lib/restrictions';
+import { RESTRICTION_TYPES, type Comment, type UserProfile } from '@/lib/types';
+
+// Firestore batches hold at most 500 writes.
+const PAGE_SIZE = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const restrictionInputSchema = z.object({
+  // null lifts the user's current restriction.
+  restriction: z.object({
+    type: z.enum(RESTRICTION_TYPES),
+    reason: z.string().trim().min(1).max(500),
+    // Only suspensions expire.
+    days: z.number().int().min(1).max(365).nullable(),
+  }).nullable(),
+});
+
+type Visibility = 'public' | 'shadow';
+
+// Sets every post or comment of the user whose `userField` matches to `visibility`, a page at a
+// time, and returns the ones that changed.
+async function setVisibility(collection: 'posts' | 'comments', userField: string, uid: string, visibility: Visibility) {
+  const changed: QueryDocumentSnapshot[] = [];
+  let query = adminDb.collection(collection).where(userField, '==', uid).orderBy('__name__').limit(PAGE_SIZE);
+  while (true) {
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    // Comments from before shadowbans have no visibility and count as public.
+    const stale = snapshot.docs.filter(doc => (doc.data().visibility ?? 'public') !== visibility);
+    if (stale.length > 0) {
+      const batch = adminDb.batch();
+      stale.forEach(doc => batch.update(doc.ref, { visibility }));
+      await batch.commit();
+      changed.push(...stale);
+    }
+
+    if (snapshot.size < PAGE_SIZE) break;
+    query = query.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+  }
+  return changed;
+}
+
+// Shadow comments aren't counted, so hiding or showing comments moves their posts' comment counts.
+async function adjustCommentCounts(comments: QueryDocumentSnapshot[], visibility: Visibility) {
+  const perPost = new Map<string, number>();
+  comments.forEach(doc => {
+    const { postId } = doc.data() as Comment;
+    perPost.set(postId, (perPost.get(postId) || 0) + 1);
+  });
+
+  const postIds = [...perPost.keys()];
+  for (let i = 0; i < postIds.length; i += PAGE_SIZE) {
+    const refs = postIds.slice(i, i + PAGE_SIZE).map(id => adminDb.collection('posts').doc(id));
+    const postDocs = await adminDb.getAll(...refs);
+    const batch = adminDb.batch();
+    let writes = 0;
+    postDocs.forEach(postDoc => {
+      if (!postDoc.exists) return;
+      const count = perPost.get(postDoc.id)!;
+      const commentCount = postDoc.data()?.commentCount || 0;
+      const delta = visibility === 'shadow' ? -Math.min(count, commentCount) : count;
+      if (delta === 0) return;
+      batch.update(postDoc.ref, { commentCount: FieldValue.increment(delta) });
+      writes++;
+    });
+    if (writes > 0) await batch.commit();
+  }
+}
+
+// Suspends, bans or shadowbans a regular user, or lifts their restriction. Shadowbanning hides the
+// user's existing posts and comments as well as new ones, and lifting it shows them all again.
+export async function PUT(request: Request, { params }: { params: { uid: string } }) {
+  const requestAdmin = await getRequestAdmin(request, 'restrict_users');
+  if (!requestAdmin) {
+    return NextResponse.json({ error: 'You do not have permission to restrict users.' }, { status: 403 });
+  }
+  if (params.uid === requestAdmin.uid) {
+    return NextResponse.json({ error: 'You cannot restrict yourself.' }, { status: 400 });
+  }
+
+  const parsed = restrictionInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid restriction.' }, { status: 400 });
+  }
+  const input = parsed.data.restriction;
+
+  const userRef = adminDb.collection('users').doc(params.uid);
+
+  try {
+    const userSnap = await userRef.get();
+    if (!userSnap.exists) {
+      return NextResponse.json({ error: 'This user does not exist.' }, { status: 404 });
+    }
+    const target = userSnap.data() as UserProfile;
+    if (target.role === 'admin') {
+      return NextResponse.json({ error: 'Admins cannot be restricted.' }, { status: 400 });
+    }
+
+    const now = Date.now();
+    const restriction = input && {
+      type: input.type,
+      reason: input.reason,
+      expiresAt: input.type === 'suspension' && input.days ? Timestamp.fromMillis(now + input.days * DAY_MS) : null,
+      issuedBy: requestAdmin.uid,
+      issuedAt: Timestamp.fromMillis(now),
+    };
+    const previous = activeRestriction(target.restriction);
+
+    const batch = adminDb.batch();
+    batch.update(userRef, { restriction });
+    const audit = adminAuditEntry(requestAdmin, {
+      action: restriction ? 'user_restricted' : 'user_restriction_lifted',
+      targetType: 'user',
+      targetId: params.uid,
+      targetLabel: target.email || target.displayName,
+      before: { restriction: describeRestriction(previous) },
+      after: { restriction: describeRestriction(restriction) },
+    });
+    batch.set(audit.ref, audit.data);
+    await batch.commit();
+
+    // The restriction is saved first, so nothing the user writes meanwhile is missed. Lifting always
+    // syncs the content, so lifting again finishes a sync that failed part way.
+    let postsUpdated = 0;
+    let commentsUpdated = 0;
+    if (!restriction || isShadowbanned(previous) || isShadowbanned(restriction)) {
+      const visibility: Visibility = isShadowbanned(restriction) ? 'shadow' : 'public';
+      postsUpdated = (await setVisibility('posts', 'authorUid', params.uid, visibility)).length;
+      const comments = await setVisibility('comments', 'userId', params.uid, visibility);
+      await adjustCommentCounts(comments, visibility);
+      commentsUpdated = comments.length;
+    }
+
+    return NextResponse.json({
+      restriction: restriction && {
+        ...restriction,
+        expiresAt: restriction.expiresAt?.toMillis() ?? null,
+        issuedAt: restriction.issuedAt.toMillis(),
+      },
+      postsUpdated,
+      commentsUpdated,
+    });
+  } catch (error) {
+    console.error('Error updating restriction:', error);
+    return NextResponse.json({ error: 'Could not update the restriction.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import * as z from 'zod';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb, getRequestUser, getUserRestriction } from '@/lib/firebase-admin';
+import { blocksActivity, restrictionMessage } from '@/lib/restrictions';
+import { consumeRateLimit, rateLimitedResponse } from '@/lib/rate-limit/server';
+import { rankingFields } from '@/lib/ranking';
+import type { Post, Vote } from '@/lib/types';
+
+const voteInputSchema = z.object({
+  postId: z.string().min(1),
+  type: z.enum(['upvote', 'downvote']),
+});
+
+// One vote per user and post. The deterministic ID means a vote can't be counted twice.
+const getVoteId = (postId: string, userId: string) => `${postId}_${userId}`;
+
+// Casts, changes or (when sent again) takes back the user's vote on a post, and moves the
+// post's counters by the matching +1/-1 in the same transaction.
+export async function POST(request: Request) {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) {
+    return NextResponse.json({ error: 'You must be signed in to vote.' }, { status: 401 });
+  }
+
+  const parsed = voteInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid vote.' }, { status: 400 });
+  }
+  const { postId, type } = parsed.data;
+
+  try {
+    const restriction = await getUserRestriction(requestUser.uid);
+    if (restriction && blocksActivity(restriction)) {
+      return NextResponse.json({ error: restrictionMessage(restriction) }, { status: 403 });
+    }
+    const retryAt = await consumeRateLimit(requestUser, 'votes');
+    if (retryAt) {
+      return rateLimitedResponse(retryAt);
+    }
+
+    const postRef = adminDb.collection('posts').doc(postId);
+    const voteRef = adminDb.collection('votes').doc(getVoteId(postId, requestUser.uid));
+
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const postDoc = await transaction.get(postRef);
+      const post = postDoc.data() as Post | undefined;
+      const canSee = post && post.status === 'approved' && (post.visibility === 'public' || post.authorUid === requestUser.uid);
+      if (!canSee) {
+        throw new Error('post-not-found');
+      }
+
+      // Votes cast before IDs were deterministic have random IDs. Look those up too and
+      // replace them, so an old vote isn't counted a second time.
+      const voteDoc = await transaction.get(voteRef);
+      const legacyVotes = voteDoc.exists ? [] : (await transaction.get(
+        adminDb.collection('votes').where('postId', '==', postId).where('userId', '==', requestUser.uid)
+      )).docs;
+      const currentVote = (voteDoc.exists ? voteDoc.data() as Vote : legacyVotes[0]?.data() as Vote | undefined)?.type ?? null;
+      legacyVotes.forEach(legacy => transaction.delete(legacy.ref));
+
+      const newVote = currentVote === type ? null : type;
+      const upvoteDelta = (newVote === 'upvote' ? 1 : 0) - (currentVote === 'upvote' ? 1 : 0);
+      const downvoteDelta = (newVote === 'downvote' ? 1 : 0) - (currentVote === 'downvote' ? 1 : 0);
+
+      if (newVote) {
+        transaction.set(voteRef, {
+          postId,
+          userId: requestUser.uid,
+          type: newVote,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      } else if (voteDoc.exists) {
+        transaction.delete(voteRef);
+      }
+      // The post was read in this transaction, so the new totals are exact.
+      const upvotes = (post.upvotes || 0) + upvoteDelta;
+      const downvotes = (post.downvotes || 0) + downvoteDelta;
+      transaction.update(postRef, {
+        upvotes,
+        downvotes,
+        ...rankingFields(upvotes, downvotes, post.createdAt?.toMillis() ?? Date.now()),
+      });
+
+      return { upvotes, downvotes, userVote: newVote };
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (error?.message === 'post-not-found') {
+      return NextResponse.json({ error: 'This post does not exist.' }, { status: 404 });
+    }
+    console.error('Error voting:', error);
+    return NextResponse.json({ error: 'Could not save your vote.' }, { status: 500 });
+  }
+}
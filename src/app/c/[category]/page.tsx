@@ -0,0 +1,14 @@
+import { notFound } from 'next/navigation';
+import { FeedPage } from '@/components/feed/FeedPage';
+import { CATEGORIES, type Category } from '@/lib/types';
+
+export function generateStaticParams() {
+  return CATEGORIES.map(category => ({ category }));
+}
+
+export default function CategoryPage({ params }: { params: { category: string } }) {
+  if (!CATEGORIES.includes(params.category as Category)) {
+    notFound();
+  }
+  return <FeedPage category={params.category as Category} />;
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+import { headers } from 'next/headers';
 import './globals.css';
 import { AuthProvider } from '@/components/providers/AuthProvider';
 import { Toaster } from '@/components/ui/toaster';
@@ -7,10 +8,28 @@ import { ThemeProvider } from '@/components/providers/ThemeProvider';
 import { ColorThemeProvider } from '@/components/providers/ColorThemeProvider';
 import { LocaleProvider } from '@/components/providers/LocaleProvider';
 
-export const metadata: Metadata = {
-  title: 'Secret Scroll',
-  description: 'Uncover secrets, share truths.',
-};
+// Link previews need absolute URLs for the generated share images. NEXT_PUBLIC_SITE_URL sets the
+// public address; without it, the Vercel deployment URL or the host the request came in on is used.
+function siteUrl(): URL {
+  if (process.env.NEXT_PUBLIC_SITE_URL) return new URL(process.env.NEXT_PUBLIC_SITE_URL);
+  if (process.env.VERCEL_URL) return new URL(`https://${process.env.VERCEL_URL}`);
+  const requestHeaders = headers();
+  // Proxies may append their own entries to the forwarded headers; the first is the client's.
+  const host = (requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host') ?? 'localhost:3000').split(',')[0].trim();
+  const protocol = requestHeaders.get('x-forwarded-proto')?.split(',')[0].trim() ?? (host.startsWith('localhost') ? 'http' : 'https');
+  return new URL(`${protocol}://${host}`);
+}
+
+export function generateMetadata(): Metadata {
+  return {
+    metadataBase: siteUrl(),
+    title: {
+      default: 'Secret Scroll',
+      template: '%s | Secret Scroll',
+    },
+    description: 'Uncover secrets, share truths.',
+  };
+}
 
 export default function RootLayout({
   children,
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, Pencil, Scale } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import type { Post, PostImage, AppealStatus } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AppealDialog } from '@/components/forms/AppealDialog';
+import { cn } from '@/lib/utils';
+
+type StatusFilter = 'attention' | 'all';
+
+// Anything the author should look at: the post itself or one of its images isn't live.
+const needsAttention = (post: Post) =>
+  post.status !== 'approved' || !!post.images?.some(img => img.status !== 'approved');
+
+// Each rejection can be appealed once. An overturned appeal doesn't count if the target was rejected again.
+const canAppeal = (target: Pick<PostImage, 'status' | 'appealStatus'>) =>
+  target.status === 'rejected' && target.appealStatus !== 'pending' && target.appealStatus !== 'upheld';
+
+export default function MyPostsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { t } = useLocale();
+  const { toast } = useToast();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>('attention');
+  const [appealing, setAppealing] = useState<{ postId: string; imageUrl: string | null } | null>(null);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    // Sorted on the client so the query doesn't need a composite index.
+    const q = query(collection(db, 'posts'), where('authorUid', '==', user.uid));
+    getDocs(q)
+      .then(snapshot => {
+        const postsData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Post));
+        postsData.sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+        setPosts(postsData);
+      })
+      .catch(error => {
+        console.error("Error fetching user's posts:", error);
+        toast({ title: t('toasts.error'), description: t('toasts.fetchError'), variant: 'destructive' });
+      })
+      .finally(() => setLoading(false));
+  }, [user, authLoading, toast, t]);
+
+  // Reflect a new appeal locally instead of refetching every post.
+  const markAppealed = (postId: string, imageUrl: string | null) => {
+    const appealStatus: AppealStatus = 'pending';
+    setPosts(prev => prev.map(p => {
+      if (p.id !== postId) return p;
+      if (!imageUrl) return { ...p, appealStatus };
+      return { ...p, images: p.images?.map(img => img.url === imageUrl ? { ...img, appealStatus } : img) };
+    }));
+  };
+
+  const visiblePosts = filter === 'attention' ? posts.filter(needsAttention) : posts;
+
+  const statusDescription = (post: Post) => {
+    if (post.status === 'rejected') {
+      if (post.rejectionReason) {
+        return `${t(`rejectionReasons.${post.rejectionReason}`)}${post.rejectionNote ? `: ${post.rejectionNote}` : ''}`;
+      }
+      return post.moderationReason === 'protected_names' ? t('myPosts.autoRejectedProtectedName') : t('myPosts.autoRejected');
+    }
+    if (post.status === 'pending') {
+      return post.reports > 0 && post.isFlagged && !post.moderationReason ? t('myPosts.pendingReports') : t('myPosts.pendingReview');
+    }
+    return null;
+  };
+
+  return (
+    <div className="flex flex-col h-dvh bg-background md:h-auto md:bg-transparent">
+      {/* Header for mobile */}
+      <header className="sticky top-0 z-10 flex items-center justify-between p-2 border-b bg-background md:hidden">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft />
+            <span className="sr-only">{t('buttons.back')}</span>
+          </Link>
+        </Button>
+        <h1 className="text-lg font-semibold">{t('myPosts.title')}</h1>
+        <div className="w-10" /> {/* Spacer */}
+      </header>
+
+      {/* Desktop Header */}
+      <div className="hidden md:block">
+        <Header />
+      </div>
+
+      <main className="flex-1 overflow-y-auto md:container md:py-8">
+        <div className="hidden md:block space-y-2 mb-8">
+          <h1 className="text-3xl font-bold tracking-tight font-headline">{t('myPosts.title')}</h1>
+          <p className="text-muted-foreground">{t('myPosts.description')}</p>
+        </div>
+        <div className="p-4 md:p-0 space-y-4">
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as StatusFilter)}>
+            <TabsList>
+              <TabsTrigger value="attention">{t('myPosts.needsAttention')}</TabsTrigger>
+              <TabsTrigger value="all">{t('myPosts.all')}</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {loading || authLoading ? (
+            <div className="grid gap-4 md:grid-cols-2">{[...Array(4)].map((_, i) => <Skeleton key={i} className="h-48 w-full" />)}</div>
+          ) : !user ? (
+            <p className="text-muted-foreground text-center py-12">{t('myPosts.signIn')}</p>
+          ) : visiblePosts.length === 0 ? (
+            <p className="text-muted-foreground text-center py-12">{filter === 'attention' ? t('myPosts.nothingToFix') : t('myPosts.noPosts')}</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {visiblePosts.map(post => {
+                const description = statusDescription(post);
+                const flaggedImages = post.images?.filter(img => img.status !== 'approved') || [];
+                return (
+                  <Card key={post.id} className={cn(post.status === 'pending' && "border-yellow-500/80", post.status === 'rejected' && "border-destructive/80")}>
+                    <CardHeader>
+                      <CardTitle className="flex justify-between items-start gap-2">
+                        <span className="break-all">{post.title}</span>
+                        <Badge variant={
+                          post.status === 'approved' ? 'secondary' :
+                          post.status === 'rejected' ? 'destructive' :
+                          'default'
+                        } className="shrink-0">{t(`myPosts.status.${post.status}`)}</Badge>
+                      </CardTitle>
+                      <CardDescription>
+                        {post.createdAt ? formatDistanceToNow(post.createdAt.toDate(), { addSuffix: true }) : t('comments.justNow')}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {description && (
+                        <p className={cn("text-sm", post.status === 'rejected' ? "text-destructive" : "text-muted-foreground")}>{description}</p>
+                      )}
+                      {post.appealStatus && (
+                        <p className="text-sm text-muted-foreground">{t(`appeals.status.${post.appealStatus}`)}</p>
+                      )}
+                      {flaggedImages.length > 0 && (
+                        <div className="grid grid-cols-3 gap-2">
+                          {flaggedImages.map(image => (
+                            <div key={image.url} className="space-y-1">
+                              <div className="relative aspect-square">
+                                <Image src={image.url} alt={post.title} fill className={cn("rounded-md object-cover", image.status === 'rejected' && "opacity-50")} />
+                              </div>
+                              <p className={cn("text-xs", image.status === 'rejected' ? "text-destructive" : "text-muted-foreground")}>
+                                {image.status === 'rejected'
+                                  ? `${t(`rejectionReasons.${image.rejectionReason || 'other'}`)}${image.rejectionNote ? `: ${image.rejectionNote}` : ''}`
+                                  : t('myPosts.imagePending')}
+                              </p>
+                              {image.appealStatus && (
+                                <p className="text-xs text-muted-foreground">{t(`appeals.status.${image.appealStatus}`)}</p>
+                              )}
+                              {canAppeal(image) && (
+                                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setAppealing({ postId: post.id, imageUrl: image.url })}>
+                                  {t('appeals.appeal')}
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                    <CardFooter className="flex justify-end gap-2">
+                      {canAppeal(post) && (
+                        <Button variant="ghost" size="sm" className="mr-auto" onClick={() => setAppealing({ postId: post.id, imageUrl: null })}>
+                          <Scale className="mr-2 h-4 w-4" />
+                          {t('appeals.appeal')}
+                        </Button>
+                      )}
+                      {post.status === 'approved' && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/post/${post.id}`}>{t('myPosts.view')}</Link>
+                        </Button>
+                      )}
+                      <Button variant={post.status === 'rejected' ? 'default' : 'outline'} size="sm" asChild>
+                        <Link href={`/post/${post.id}/edit`}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          {post.status === 'rejected' ? t('myPosts.editAndResubmit') : t('myPosts.edit')}
+                        </Link>
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+      {appealing && (
+        <AppealDialog
+          postId={appealing.postId}
+          imageUrl={appealing.imageUrl}
+          open={appealing !== null}
+          onOpenChange={(open) => { if (!open) setAppealing(null); }}
+          onAppealed={() => markAppealed(appealing.postId, appealing.imageUrl)}
+        />
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useRouter, useParams } from 'next/navigation';
 import { useForm, useFieldArray, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { doc, getDoc, updateDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -16,15 +16,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Loader2, Plus, X, ArrowLeft, Save } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import Image from 'next/image';
-import { errorEmitter } from '@/firebase/error-emitter';
-import { FirestorePermissionError } from '@/firebase/errors';
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
-import type { Post, PostImage } from '@/lib/types';
+import type { Post } from '@/lib/types';
 import { isSocialPlatform, getSocialPlatformIcon } from '@/lib/socials';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useLocale } from '@/hooks/useLocale';
-import levenshtein from 'fast-levenshtein';
+import { useRestriction } from '@/hooks/useRestriction';
+import { authorizedFetch } from '@/lib/api';
 
 
 const postSchema = z.object({
@@ -42,64 +41,11 @@ const postSchema = z.object({
 type PostFormValues = z.infer<typeof postSchema>;
 const categories = ['funny', 'deep', 'random', 'advice'] as const;
 
-function containsProtectedName(title: string, protectedNames: string[]): boolean {
-  const normalizedTitle = title.toLowerCase().replace(/[^a-z0-9\s]/g, '');
-  const titleWords = normalizedTitle.split(/\s+/).filter(w => w.length > 1);
-
-  for (const protectedName of protectedNames) {
-    const normalizedProtected = protectedName.toLowerCase().replace(/[^a-z0-9\s]/g, '');
-    const protectedWords = normalizedProtected.split(/\s+/).filter(w => w.length > 1);
-
-    // 1. Direct full string match (original and reversed full)
-    const fullString = normalizedProtected.replace(/\s/g, '');
-    const reversedFull = fullString.split('').reverse().join('');
-    const titleCompact = normalizedTitle.replace(/\s/g, '');
-    if (titleCompact.includes(fullString) || titleCompact.includes(reversedFull)) {
-      return true;
-    }
-
-    // 2. Reversed word order check (e.g., "ezzine ibrahim")
-    const reversedWordsOrder = protectedWords.slice().reverse().join('');
-    if (titleCompact.includes(reversedWordsOrder)) {
-      return true;
-    }
-    
-    // 3. Check for reversed individual words (exact match)
-    for (const pWord of protectedWords) {
-      const reversedPWord = pWord.split('').reverse().join('');
-      if (titleWords.includes(reversedPWord)) {
-        return true; // e.g., "miharbi" matches reversed "ibrahim"
-      }
-    }
-
-    // 4. Fuzzy match on each word (including reversed versions)
-    const THRESHOLD = 2; // for typos like "ibrqhi" → "ibrahim"
-    let matchCount = 0;
-    for (const pWord of protectedWords) {
-      const reversedPWord = pWord.split('').reverse().join('');
-      for (const tWord of titleWords) {
-        const distance = Math.min(
-          levenshtein.get(pWord, tWord),
-          levenshtein.get(reversedPWord, tWord)
-        );
-        if (distance <= THRESHOLD) {
-          matchCount++;
-          break;
-        }
-      }
-    }
-    if (matchCount === protectedWords.length && protectedWords.length > 0) {
-      return true;
-    }
-  }
-  return false;
-}
-
-
 export default function EditPostPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const { t } = useLocale();
+  const { checkBlocked } = useRestriction();
   const router = useRouter();
   const params = useParams();
   const postId = params.id as string;
@@ -231,145 +177,50 @@ export default function EditPostPage() {
   };
 
   const onSubmit = (data: PostFormValues) => {
-    if (!post) return;
+    if (!post || !user || checkBlocked()) return;
 
     startTransition(async () => {
-      let postStatus: 'pending' | 'approved' | 'rejected' = 'approved';
-      let isFlagged = false;
-      let reviewToastTitle = '';
-      let reviewToastDescription = '';
+      const payload = { ...data, eventDate: data.eventDate ? data.eventDate.toISOString() : null };
 
-      // 1. Check against protected names list -> REJECT
       try {
-          const protectedNamesRef = doc(db, 'settings', 'protectedNames');
-          const protectedNamesSnap = await getDoc(protectedNamesRef);
-          if (protectedNamesSnap.exists()) {
-              const protectedNames = protectedNamesSnap.data().names as string[];
-              if (containsProtectedName(data.title, protectedNames)) {
-                postStatus = 'rejected';
-                isFlagged = true; // Stop other checks
-                reviewToastTitle = 'Post Rejected';
-                reviewToastDescription = `This post was automatically rejected because its title appears to contain a protected name.`;
-              }
-          }
-      } catch (error) {
-          console.error("Error checking protected names:", error);
-      }
-
-      const contentToCheck = `${data.title} ${data.content || ''}`;
-
-      // 2. Check against local forbidden words list -> PENDING
-      if (contentToCheck.trim() && !isFlagged) {
-        try {
-          const settingsRef = doc(db, 'settings', 'config');
-          const settingsSnap = await getDoc(settingsRef);
-          if (settingsSnap.exists()) {
-              const forbiddenWords = settingsSnap.data().forbiddenWords as string[];
-              const foundWords = forbiddenWords.filter(word => 
-                  new RegExp(`\\b${word}\\b`, 'i').test(contentToCheck)
-              );
-
-              if (foundWords.length > 0) {
-                  postStatus = 'pending';
-                  isFlagged = true; // Stop other checks
-                  reviewToastTitle = 'Post Submitted for Review';
-                  reviewToastDescription = `This post has been flagged for containing inappropriate words: ${foundWords.join(", ")}. It will be reviewed by an admin.`;
-              }
-          }
-        } catch (error) {
-             console.error("Error checking forbidden words:", error);
+        // The server re-runs the moderation checks on the edited content.
+        const res = await authorizedFetch(user, `/api/posts/${post.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(payload),
+        });
+        const result = await res.json();
+        if (!res.ok) {
+          throw new Error(result.error || 'Could not update post.');
         }
-      }
-      
-      // 3. If not flagged yet, check external API -> PENDING
-      /* // Temporarily disabled to prevent false positives on normal names.
-      if (contentToCheck.trim() && !isFlagged) {
-          try {
-              const checkRes = await fetch('/api/check-content', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ text: contentToCheck }),
-              });
-
-              if (!checkRes.ok) { // API call itself failed
-                postStatus = 'pending';
-                isFlagged = true;
-                reviewToastTitle = "Post Submitted for Review";
-                reviewToastDescription = "We couldn't automatically verify the content, so it will be manually reviewed by an admin.";
-              } else {
-                  const { flagged } = await checkRes.json();
-                  if (flagged) { // API flagged the content
-                    postStatus = 'pending';
-                    isFlagged = true;
-                    reviewToastTitle = "Post Submitted for Review";
-                    reviewToastDescription = `This post has been flagged for review due to potentially inappropriate content.`;
-                  }
-              }
-          } catch (error) {
-              console.error("Error checking content:", error);
-              postStatus = 'pending';
-              isFlagged = true;
-              reviewToastTitle = "Post Submitted for Review";
-              reviewToastDescription = "There was an issue automatically checking the content. It has been submitted for manual review.";
-          }
-      }
-      */
-      
-      const postRef = doc(db, 'posts', post.id);
-
-      const existingImages = post.images || [];
-      const currentImageUrls = data.imageUrls || [];
 
-      const newImages: PostImage[] = currentImageUrls.map(url => {
-          const existing = existingImages.find(img => img.url === url);
-          return existing ? existing : { url, status: 'pending' as const };
-      });
-
-      const hasPendingImages = newImages.some(img => img.status === 'pending');
-
-      const filteredCustomFields = data.customFields?.filter(
-        field => field.label.trim() !== '' && field.value.trim() !== ''
-      );
-
-      const updatedData = {
-        title: data.title,
-        content: data.content,
-        category: data.category,
-        eventDate: data.eventDate ? Timestamp.fromDate(data.eventDate) : null,
-        customFields: filteredCustomFields,
-        images: newImages,
-        hasPendingImages: hasPendingImages,
-        status: postStatus,
-        isFlagged: isFlagged,
-        updatedAt: serverTimestamp(),
-      };
-      
-      const cleanUpdatedData = Object.fromEntries(
-        Object.entries(updatedData).filter(([_, v]) => v !== undefined)
-      );
-      
-      updateDoc(postRef, cleanUpdatedData)
-        .then(() => {
-            if (isFlagged) {
-                toast({ 
-                    title: reviewToastTitle, 
-                    description: reviewToastDescription, 
-                    duration: 9000,
-                    variant: postStatus === 'rejected' ? 'destructive' : 'default'
-                });
-            } else {
-                toast({ title: t('toasts.postUpdated'), description: t('toasts.postUpdatedDescription') });
-            }
-            router.push(`/post/${post.id}`);
-        })
-        .catch((serverError) => {
-            const permissionError = new FirestorePermissionError({
-                path: postRef.path,
-                operation: 'update',
-                requestResourceData: cleanUpdatedData,
+        if (result.status === 'rejected') {
+            toast({
+                title: 'Post Rejected',
+                description: result.reason === 'protected_names'
+                  ? `This post was automatically rejected because its title appears to contain a protected name. If this is a mistake, you can appeal from My posts.`
+                  : `This post was automatically rejected by the content filters. If this is a mistake, you can appeal from My posts.`,
+                duration: 9000,
+                variant: 'destructive',
             });
-            errorEmitter.emit('permission-error', permissionError);
-        });
+        } else if (result.status === 'pending' && !result.reason) {
+            // Passed the filters, but a previously held or rejected post goes back to an admin.
+            toast({ title: t('toasts.postResubmitted'), description: t('toasts.postResubmittedDescription'), duration: 9000 });
+        } else if (result.status === 'pending') {
+            toast({
+                title: 'Post Submitted for Review',
+                description: result.reason === 'forbidden_words'
+                  ? `This post has been flagged for containing inappropriate words: ${result.matches.join(", ")}. It will be reviewed by an admin.`
+                  : `This post has been flagged for review due to potentially inappropriate content. It will be reviewed by an admin.`,
+                duration: 9000,
+            });
+        } else {
+            toast({ title: t('toasts.postUpdated'), description: t('toasts.postUpdatedDescription') });
+        }
+        router.push(result.status === 'approved' ? `/post/${post.id}` : '/my-posts');
+      } catch (error: any) {
+        console.error('Error updating post:', error);
+        toast({ title: t('toasts.error'), description: error.message, variant: 'destructive' });
+      }
     });
   };
 
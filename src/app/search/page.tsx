@@ -0,0 +1,205 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { collection, getDocs, limit, orderBy, query, startAfter, where, type DocumentData, type QueryDocumentSnapshot } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, Loader2, Search } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import type { Post } from '@/lib/types';
+import { matchesSearch, pickQueryTerm, searchTerms } from '@/lib/search';
+import { useLocale } from '@/hooks/useLocale';
+import { useToast } from '@/hooks/use-toast';
+import { Header } from '@/components/layout/Header';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+const PAGE_SIZE = 20;
+// Only one search term goes to Firestore, so a page of reads can hold few matches.
+// This caps how many pages one "load more" reads looking for them.
+const MAX_READS_PER_PAGE = 5;
+
+type Cursor = QueryDocumentSnapshot<DocumentData> | null;
+
+function SearchResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { t } = useLocale();
+  const { toast } = useToast();
+  const queryText = searchParams.get('q') ?? '';
+  const terms = useMemo(() => searchTerms(queryText), [queryText]);
+  const [input, setInput] = useState(queryText);
+  const [results, setResults] = useState<Post[]>([]);
+  const [cursor, setCursor] = useState<Cursor>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Reads until a page of matches is collected or the posts containing the query term run out.
+  const fetchPage = useCallback(async (after: Cursor) => {
+    const matches: Post[] = [];
+    let last = after;
+    let exhausted = false;
+    for (let reads = 0; reads < MAX_READS_PER_PAGE && matches.length < PAGE_SIZE; reads++) {
+      const q = query(
+        collection(db, 'posts'),
+        where('status', '==', 'approved'),
+        where('visibility', '==', 'public'),
+        where('searchTokens', 'array-contains', pickQueryTerm(terms)),
+        orderBy('createdAt', 'desc'),
+        ...(last ? [startAfter(last)] : []),
+        limit(PAGE_SIZE)
+      );
+      const snapshot = await getDocs(q);
+      matches.push(...snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as Post))
+        .filter(post => matchesSearch(post, terms)));
+      if (snapshot.docs.length < PAGE_SIZE) {
+        exhausted = true;
+        break;
+      }
+      last = snapshot.docs[snapshot.docs.length - 1];
+    }
+    return { matches, last, hasMore: !exhausted };
+  }, [terms]);
+
+  useEffect(() => {
+    setInput(queryText);
+    setResults([]);
+    setCursor(null);
+    setHasMore(false);
+    if (terms.length === 0) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchPage(null)
+      .then(page => {
+        if (cancelled) return;
+        setResults(page.matches);
+        setCursor(page.last);
+        setHasMore(page.hasMore);
+      })
+      .catch(error => {
+        console.error("Error searching posts:", error);
+        toast({ title: t('toasts.error'), description: t('toasts.fetchError'), variant: 'destructive' });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [queryText, terms, fetchPage, toast, t]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(cursor);
+      setResults(prev => [...prev, ...page.matches]);
+      setCursor(page.last);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Error searching posts:", error);
+      toast({ title: t('toasts.error'), description: t('toasts.fetchError'), variant: 'destructive' });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = input.trim();
+    router.replace(trimmed ? `/search?q=${encodeURIComponent(trimmed)}` : '/search');
+  };
+
+  return (
+    <div className="p-4 md:p-0 space-y-4">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={t('search.placeholder')}
+          autoFocus
+        />
+        <Button type="submit">
+          <Search className="mr-2 h-4 w-4" />
+          {t('search.submit')}
+        </Button>
+      </form>
+
+      {loading ? (
+        [...Array(3)].map((_, i) => <Skeleton key={i} className="h-24 w-full" />)
+      ) : terms.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">{t('search.prompt')}</p>
+      ) : results.length === 0 && !hasMore ? (
+        <p className="text-center text-muted-foreground py-8">{t('search.noResults', { query: queryText })}</p>
+      ) : (
+        <>
+          {results.map(post => (
+            <Link key={post.id} href={`/post/${post.id}`} className="block">
+              <Card className="transition-colors hover:bg-muted/50">
+                <CardHeader>
+                  <CardTitle className="flex justify-between items-start gap-2">
+                    <span className="break-all">{post.title}</span>
+                    {post.category && <Badge variant="secondary" className="shrink-0">{t(`categories.${post.category}`)}</Badge>}
+                  </CardTitle>
+                  {post.content && <p className="text-sm text-muted-foreground line-clamp-2">{post.content}</p>}
+                  <CardDescription>
+                    {post.createdAt ? formatDistanceToNow(post.createdAt.toDate(), { addSuffix: true }) : t('comments.justNow')}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+          ))}
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('search.loadMore')}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  const { t } = useLocale();
+
+  return (
+    <div className="flex flex-col h-dvh bg-background md:h-auto md:bg-transparent">
+      {/* Header for mobile */}
+      <header className="sticky top-0 z-10 flex items-center justify-between p-2 border-b bg-background md:hidden">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft />
+            <span className="sr-only">{t('buttons.back')}</span>
+          </Link>
+        </Button>
+        <h1 className="text-lg font-semibold">{t('search.title')}</h1>
+        <div className="w-10" /> {/* Spacer */}
+      </header>
+
+      {/* Desktop Header */}
+      <div className="hidden md:block">
+        <Header />
+      </div>
+
+      <main className="flex-1 overflow-y-auto md:container md:max-w-3xl md:py-8">
+        <div className="hidden md:block space-y-2 mb-8">
+          <h1 className="text-3xl font-bold tracking-tight font-headline">{t('search.title')}</h1>
+          <p className="text-muted-foreground">{t('search.description')}</p>
+        </div>
+        {/* useSearchParams needs a Suspense boundary for the page to prerender. */}
+        <Suspense>
+          <SearchResults />
+        </Suspense>
+      </main>
+    </div>
+  );
+}
@@ -6,28 +6,38 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter } from 'next/navigation';
-import { collection, query, getDocs, doc, orderBy, deleteDoc, where, writeBatch, updateDoc, getDoc, setDoc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { collection, query, getDocs, doc, orderBy, deleteDoc, where, writeBatch, updateDoc, getDoc, setDoc, runTransaction, serverTimestamp, limit, Timestamp, type DocumentReference } from 'firebase/firestore';
+import type { User } from 'firebase/auth';
 import { db } from '@/lib/firebase';
-import type { Post, UserProfile, AppSettings, PostImage, Permission, AdminPermissions } from '@/lib/types';
+import { authorizedFetch } from '@/lib/api';
+import { auditEntry } from '@/lib/audit';
+import type { ModerationResult } from '@/lib/moderation/types';
+import type { Post, UserProfile, AppSettings, PostImage, Permission, AdminPermissions, Report, Comment as CommentType, ModerationProviderId, ModerationProviderConfig, AuditLogEntry, AuditAction, RejectionReason, Appeal, AppealStatus, UserRestriction, RestrictionType } from '@/lib/types';
+import { DEFAULT_REPORT_THRESHOLD, DEFAULT_MODERATION_PROVIDERS, MODERATION_PROVIDER_IDS, AUDIT_ACTIONS, REJECTION_REASONS, RESTRICTION_TYPES } from '@/lib/types';
+import { activeRestriction } from '@/lib/restrictions';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Loader2, Trash2, UserPlus, X, Search, ShieldCheck, ShieldOff, Check, Ban, Settings } from 'lucide-react';
+import { Loader2, Trash2, UserPlus, X, Search, ShieldCheck, ShieldOff, Check, Ban, Settings, ExternalLink } from 'lucide-react';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import Image from 'next/image';
+import Link from 'next/link';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from '../ui/badge';
 import { Switch } from '../ui/switch';
 import { Label } from '../ui/label';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { cn } from '@/lib/utils';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import { useLocale } from '@/hooks/useLocale';
 
@@ -39,13 +49,30 @@ const PERMISSIONS_CONFIG: { id: Permission; label: string; description: string }
     { id: 'delete_users', label: 'User Deletion', description: 'Can delete any user account from the application.' },
     { id: 'manage_forbidden_words', label: 'Word Filter', description: 'Can manage the list of forbidden words.' },
     { id: 'manage_protected_names', label: 'Protected Names', description: 'Manage a list of protected names to block from post titles.' },
+    { id: 'manage_reports', label: 'Reports', description: 'Can review, resolve or dismiss reports submitted by users.' },
+    { id: 'manage_allowlist', label: 'Allowlist', description: 'Can manage the words and names that moderation should never flag.' },
+    { id: 'view_audit_log', label: 'Audit Log', description: 'Can view the log of actions taken by admins.' },
+    { id: 'review_appeals', label: 'Appeals', description: 'Can review appeals against rejected posts and images and overturn the decision.' },
+    { id: 'restrict_users', label: 'User Restrictions', description: 'Can suspend, ban or shadowban users, and lift those restrictions.' },
 ];
 
+// Saves a change to one of the settings documents together with its audit log entry. The rules
+// only accept an entry alongside a real change, so saving the same values again writes nothing.
+function saveSettings(actor: User, settingsRef: DocumentReference, before: Record<string, unknown>, after: Record<string, unknown>) {
+    if (JSON.stringify(before) === JSON.stringify(after)) return Promise.resolve();
+    const batch = writeBatch(db);
+    batch.set(settingsRef, after, { merge: true });
+    const audit = auditEntry(actor, { action: 'settings_updated', targetType: 'settings', targetId: settingsRef.id, before, after });
+    batch.set(audit.ref, audit.data);
+    return batch.commit();
+}
+
 const permissionsSchema = z.object({
   permissions: z.array(z.string()).optional(),
 });
 
 function PermissionsDialog({ admin, onUpdate, children }: { admin: UserProfile; onUpdate: () => void; children: React.ReactNode }) {
+  const { user } = useAuth();
   const { toast } = useToast();
   const { t } = useLocale();
   const [isPending, startTransition] = useTransition();
@@ -63,8 +90,24 @@ function PermissionsDialog({ admin, onUpdate, children }: { admin: UserProfile;
         return acc;
       }, {} as AdminPermissions);
 
+      if (!user) return;
+      if (PERMISSIONS_CONFIG.every(p => !!admin.permissions?.[p.id] === newPermissions[p.id])) {
+        toast({ title: t('toasts.success'), description: t('admin.permissionsUpdated', { email: admin.email || 'user' }) });
+        return;
+      }
       const adminRef = doc(db, 'users', admin.uid);
-      updateDoc(adminRef, { permissions: newPermissions })
+      const batch = writeBatch(db);
+      batch.update(adminRef, { permissions: newPermissions });
+      const audit = auditEntry(user, {
+        action: 'permissions_updated',
+        targetType: 'user',
+        targetId: admin.uid,
+        targetLabel: admin.email,
+        before: { permissions: admin.permissions || {} },
+        after: { permissions: newPermissions },
+      });
+      batch.set(audit.ref, audit.data);
+      batch.commit()
         .then(() => {
           toast({ title: t('toasts.success'), description: t('admin.permissionsUpdated', { email: admin.email || 'user' }) });
           onUpdate(); // Refresh admin list in parent
@@ -127,6 +170,64 @@ function PermissionsDialog({ admin, onUpdate, children }: { admin: UserProfile;
 }
 
 
+type Rejection = Pick<Post, 'rejectionReason' | 'rejectionNote'>;
+
+// The reason is shown to the author in "My posts".
+function RejectReasonDialog({ open, onOpenChange, onConfirm }: { open: boolean; onOpenChange: (open: boolean) => void; onConfirm: (rejection: Rejection) => void }) {
+  const { t } = useLocale();
+  const [reason, setReason] = useState<RejectionReason>('inappropriate');
+  const [note, setNote] = useState('');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason('inappropriate');
+      setNote('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = () => {
+    onConfirm({ rejectionReason: reason, rejectionNote: note.trim() || null });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('admin.rejectTitle')}</DialogTitle>
+          <DialogDescription>{t('admin.rejectDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as RejectionReason)}>
+            {REJECTION_REASONS.map(r => (
+              <div key={r} className="flex items-center space-x-2">
+                <RadioGroupItem value={r} id={`rejection-reason-${r}`} />
+                <Label htmlFor={`rejection-reason-${r}`} className="font-normal">{t(`rejectionReasons.${r}`)}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-note">{t('admin.rejectNoteLabel')}</Label>
+            <Textarea
+              id="rejection-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t('admin.rejectNotePlaceholder')}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button variant="ghost">{t('buttons.cancel')}</Button></DialogClose>
+          <Button variant="destructive" onClick={handleConfirm}>{t('admin.reject')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // #region Post Manager
 function PostManager() {
     const [posts, setPosts] = useState<Post[]>([]);
@@ -135,9 +236,11 @@ function PostManager() {
     const [updating, setUpdating] = useState<Record<string, boolean>>({});
     const [filter, setFilter] = useState('');
     const [showFlagged, setShowFlagged] = useState(false);
+    const [rejectingPostId, setRejectingPostId] = useState<string | null>(null);
+    const [isReindexing, setIsReindexing] = useState(false);
     const { toast } = useToast();
     const { t } = useLocale();
-    const { userProfile } = useAuth();
+    const { user, userProfile } = useAuth();
 
     const fetchPostsAndUsers = useCallback(async () => {
         setLoading(true);
@@ -168,16 +271,32 @@ function PostManager() {
       fetchPostsAndUsers();
     }, [fetchPostsAndUsers]);
 
-    const handlePostStatusChange = (postId: string, status: 'approved' | 'rejected') => {
-        if (!userProfile?.permissions?.approve_pictures) { // Reuse this permission for post moderation
+    const handlePostStatusChange = (postId: string, status: 'approved' | 'rejected', rejection?: Rejection) => {
+        if (!user || !userProfile?.permissions?.approve_pictures) { // Reuse this permission for post moderation
             toast({ title: t('toasts.permissionDenied'), variant: 'destructive'});
             return;
         }
         setUpdating(prev => ({ ...prev, [postId]: true }));
         const postRef = doc(db, 'posts', postId);
-        updateDoc(postRef, { status, updatedAt: serverTimestamp() })
+        // Approving a post clears its report count and flag, so only new reports can send it back to review.
+        const update = status === 'approved'
+            ? { status, reports: 0, isFlagged: false, rejectionReason: null, rejectionNote: null }
+            : { status, rejectionReason: rejection?.rejectionReason || 'other', rejectionNote: rejection?.rejectionNote || null };
+        const post = posts.find(p => p.id === postId);
+        const batch = writeBatch(db);
+        batch.update(postRef, { ...update, updatedAt: serverTimestamp() });
+        const audit = auditEntry(user, {
+            action: 'post_status_changed',
+            targetType: 'post',
+            targetId: postId,
+            targetLabel: post?.title,
+            before: { status: post?.status, ...(status === 'approved' && { reports: post?.reports || 0, isFlagged: post?.isFlagged ?? false }), rejectionReason: post?.rejectionReason || null, rejectionNote: post?.rejectionNote || null },
+            after: update,
+        });
+        batch.set(audit.ref, audit.data);
+        batch.commit()
             .then(() => {
-                setPosts(prev => prev.map(p => p.id === postId ? { ...p, status } : p));
+                setPosts(prev => prev.map(p => p.id === postId ? { ...p, ...update } : p));
                 toast({ title: t('toasts.success'), description: `Post has been ${status}.` });
             })
             .catch(error => {
@@ -190,15 +309,43 @@ function PostManager() {
     };
 
 
+    const handleReindexPosts = async () => {
+        if (!user) return;
+        setIsReindexing(true);
+        try {
+            const res = await authorizedFetch(user, '/api/posts/reindex', { method: 'POST' });
+            const result = await res.json();
+            if (!res.ok) {
+                throw new Error(result.error || 'Could not reindex posts.');
+            }
+            toast({ title: t('toasts.success'), description: t('admin.postsReindexed', { count: String(result.updated), comments: String(result.commentsUpdated) }) });
+        } catch (error: any) {
+            toast({ title: t('toasts.error'), description: error.message, variant: 'destructive' });
+        } finally {
+            setIsReindexing(false);
+        }
+    };
+
     const handleDeletePost = (postId: string) => {
-        if (!userProfile?.permissions?.delete_posts) {
+        if (!user || !userProfile?.permissions?.delete_posts) {
             toast({ title: t('toasts.permissionDenied'), variant: 'destructive'});
             return;
         }
         setUpdating(prev => ({ ...prev, [postId]: true }));
         const postRef = doc(db, 'posts', postId);
-        
-        deleteDoc(postRef)
+        const post = posts.find(p => p.id === postId);
+
+        const batch = writeBatch(db);
+        batch.delete(postRef);
+        const audit = auditEntry(user, {
+            action: 'post_deleted',
+            targetType: 'post',
+            targetId: postId,
+            targetLabel: post?.title,
+            before: post ? { title: post.title, content: post.content, authorUid: post.authorUid, status: post.status } : null,
+        });
+        batch.set(audit.ref, audit.data);
+        batch.commit()
           .then(() => {
             setPosts(prev => prev.filter(p => p.id !== postId));
             toast({ title: t('toasts.success'), description: t('toasts.postDeleted') });
@@ -228,6 +375,10 @@ function PostManager() {
                         <Switch id="show-flagged" checked={showFlagged} onCheckedChange={setShowFlagged} />
                         <Label htmlFor="show-flagged">{t('admin.showFlaggedOnly')}</Label>
                     </div>
+                    <Button variant="outline" onClick={handleReindexPosts} disabled={isReindexing} className="shrink-0">
+                        {isReindexing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('admin.reindexPosts')}
+                    </Button>
                 </CardContent>
             </Card>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -258,12 +409,18 @@ function PostManager() {
                         </CardHeader>
                         <CardContent>
                             <p className="p-3 bg-muted rounded-md line-clamp-3 text-sm">{post.content}</p>
+                            {post.reports > 0 && <Badge variant="outline" className="mt-2 border-destructive/60 text-destructive">{t('admin.reportCount', { count: post.reports.toString() })}</Badge>}
+                            {post.status === 'rejected' && post.rejectionReason && (
+                                <p className="text-xs text-destructive mt-2">
+                                    {t(`rejectionReasons.${post.rejectionReason}`)}{post.rejectionNote && `: ${post.rejectionNote}`}
+                                </p>
+                            )}
                             <p className="text-xs text-muted-foreground mt-2">{t('admin.joined', { date: post.createdAt ? formatDistanceToNow(post.createdAt.toDate(), { addSuffix: true }) : 'N/A' })}</p>
                         </CardContent>
                         <CardFooter className="flex justify-end gap-2">
                             {post.status === 'pending' && userProfile?.permissions?.approve_pictures && (
                                 <div className='flex-1 flex gap-2'>
-                                    <Button variant="destructive" size="sm" onClick={() => handlePostStatusChange(post.id, 'rejected')} disabled={updating[post.id]}>
+                                    <Button variant="destructive" size="sm" onClick={() => setRejectingPostId(post.id)} disabled={updating[post.id]}>
                                         {updating[post.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldOff className="h-4 w-4" />}
                                         <span className="ml-2">Reject</span>
                                     </Button>
@@ -296,6 +453,11 @@ function PostManager() {
                 )})}
             </div>
              {!loading && filteredPosts.length === 0 && <p className="text-center text-muted-foreground py-8">{t('admin.noPostsFound')}</p>}
+            <RejectReasonDialog
+                open={rejectingPostId !== null}
+                onOpenChange={(open) => { if (!open) setRejectingPostId(null); }}
+                onConfirm={(rejection) => { if (rejectingPostId) handlePostStatusChange(rejectingPostId, 'rejected', rejection); }}
+            />
         </div>
     );
 }
@@ -306,9 +468,10 @@ function ImageApprovalQueue() {
     const [posts, setPosts] = useState<Post[]>([]);
     const [loading, setLoading] = useState(true);
     const [updating, setUpdating] = useState<Record<string, boolean>>({});
+    const [rejectingImage, setRejectingImage] = useState<{ postId: string; url: string } | null>(null);
     const { toast } = useToast();
     const { t } = useLocale();
-    const { userProfile } = useAuth();
+    const { user, userProfile } = useAuth();
 
     const fetchPendingImages = useCallback(async () => {
         setLoading(true);
@@ -330,8 +493,8 @@ function ImageApprovalQueue() {
       fetchPendingImages();
     }, [fetchPendingImages]);
 
-    const handleImageDecision = (postId: string, imageUrl: string, decision: 'approved' | 'rejected') => {
-        if (!userProfile?.permissions?.approve_pictures) {
+    const handleImageDecision = (postId: string, imageUrl: string, decision: 'approved' | 'rejected', rejection?: Rejection) => {
+        if (!user || !userProfile?.permissions?.approve_pictures) {
             toast({ title: t('toasts.permissionDenied'), variant: 'destructive'});
             return;
         }
@@ -345,13 +508,25 @@ function ImageApprovalQueue() {
             }
 
             const currentImages = (postDoc.data().images || []) as PostImage[];
+            const decided: Partial<PostImage> = decision === 'rejected'
+                ? { status: decision, rejectionReason: rejection?.rejectionReason || 'other', rejectionNote: rejection?.rejectionNote || null }
+                : { status: decision, rejectionReason: null, rejectionNote: null };
             const newImages = currentImages.map(img =>
-                img.url === imageUrl ? { ...img, status: decision } : img
+                img.url === imageUrl ? { ...img, ...decided } : img
             );
             
             const hasPending = newImages.some(img => img.status === 'pending');
             
             transaction.update(postRef, { images: newImages, hasPendingImages: hasPending });
+            const audit = auditEntry(user, {
+                action: 'image_decision',
+                targetType: 'post',
+                targetId: postId,
+                targetLabel: postDoc.data().title,
+                before: { imageUrl, status: currentImages.find(img => img.url === imageUrl)?.status || null },
+                after: { imageUrl, ...decided },
+            });
+            transaction.set(audit.ref, audit.data);
             return hasPending;
         }).then(() => {
             toast({ title: t('toasts.success'), description: t('admin.imageDecisionSuccess', { decision }) });
@@ -402,7 +577,7 @@ function ImageApprovalQueue() {
                                <div key={index} className="relative group aspect-square">
                                    <Image src={image.url} alt={post.title} fill className="rounded-md object-cover" />
                                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                       <Button size="icon" variant="destructive" onClick={() => handleImageDecision(post.id, image.url, 'rejected')} disabled={updating[image.url]}>
+                                       <Button size="icon" variant="destructive" onClick={() => setRejectingImage({ postId: post.id, url: image.url })} disabled={updating[image.url]}>
                                            {updating[image.url] ? <Loader2 className="h-4 w-4 animate-spin"/> : <Ban className="h-4 w-4" />}
                                            <span className="sr-only">{t('admin.reject')}</span>
                                        </Button>
@@ -417,16 +592,98 @@ function ImageApprovalQueue() {
                     </Card>
                 )
             })}
+            <RejectReasonDialog
+                open={rejectingImage !== null}
+                onOpenChange={(open) => { if (!open) setRejectingImage(null); }}
+                onConfirm={(rejection) => { if (rejectingImage) handleImageDecision(rejectingImage.postId, rejectingImage.url, 'rejected', rejection); }}
+            />
         </div>
     )
 }
 // #endregion
 
 // #region User Manager
+const SUSPENSION_DAYS = [1, 3, 7, 30];
+
+type RestrictionInput = Pick<UserRestriction, 'type' | 'reason'> & { days: number | null };
+
+function RestrictUserDialog({ open, onOpenChange, onConfirm }: { open: boolean; onOpenChange: (open: boolean) => void; onConfirm: (input: RestrictionInput) => void }) {
+  const { t } = useLocale();
+  const [type, setType] = useState<RestrictionType>('suspension');
+  const [days, setDays] = useState(SUSPENSION_DAYS[2]);
+  const [reason, setReason] = useState('');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setType('suspension');
+      setDays(SUSPENSION_DAYS[2]);
+      setReason('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = () => {
+    onConfirm({ type, reason: reason.trim(), days: type === 'suspension' ? days : null });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('admin.restrictTitle')}</DialogTitle>
+          <DialogDescription>{t('admin.restrictDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={type} onValueChange={(value) => setType(value as RestrictionType)}>
+            {RESTRICTION_TYPES.map(r => (
+              <div key={r} className="flex items-start space-x-2">
+                <RadioGroupItem value={r} id={`restriction-type-${r}`} className="mt-1" />
+                <Label htmlFor={`restriction-type-${r}`} className="font-normal">
+                  <span className="font-medium">{t(`admin.restrictionTypes.${r}.label`)}</span>
+                  <span className="block text-xs text-muted-foreground">{t(`admin.restrictionTypes.${r}.description`)}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          {type === 'suspension' && (
+            <div className="space-y-2">
+              <Label>{t('admin.suspensionLength')}</Label>
+              <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUSPENSION_DAYS.map(d => <SelectItem key={d} value={String(d)}>{t('admin.suspensionDays', { count: String(d) })}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="restriction-reason">{t('admin.restrictionReasonLabel')}</Label>
+            <Textarea
+              id="restriction-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('admin.restrictionReasonPlaceholder')}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button variant="ghost">{t('buttons.cancel')}</Button></DialogClose>
+          <Button variant="destructive" onClick={handleConfirm} disabled={reason.trim() === ''}>{t('admin.restrict')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function UserManager() {
     const [users, setUsers] = useState<UserProfile[]>([]);
     const [loading, setLoading] = useState(true);
     const [deletingUser, setDeletingUser] = useState<string | null>(null);
+    const [restrictingUser, setRestrictingUser] = useState<UserProfile | null>(null);
+    const [updatingRestriction, setUpdatingRestriction] = useState<string | null>(null);
     const { toast } = useToast();
     const { t } = useLocale();
     const { user: currentUser, userProfile } = useAuth();
@@ -460,7 +717,7 @@ function UserManager() {
     }, [fetchUsers, userProfile]);
     
     const handleDeleteUser = (userToDelete: UserProfile) => {
-        if (!userProfile?.permissions?.delete_users) {
+        if (!currentUser || !userProfile?.permissions?.delete_users) {
             toast({ title: t('toasts.permissionDenied'), description: 'You do not have permission to delete users.', variant: 'destructive' });
             return;
         }
@@ -471,8 +728,18 @@ function UserManager() {
 
         setDeletingUser(userToDelete.uid);
         const userRef = doc(db, 'users', userToDelete.uid);
-        
-        deleteDoc(userRef)
+
+        const batch = writeBatch(db);
+        batch.delete(userRef);
+        const audit = auditEntry(currentUser, {
+            action: 'user_deleted',
+            targetType: 'user',
+            targetId: userToDelete.uid,
+            targetLabel: userToDelete.email || userToDelete.displayName,
+            before: { email: userToDelete.email, displayName: userToDelete.displayName, role: userToDelete.role },
+        });
+        batch.set(audit.ref, audit.data);
+        batch.commit()
           .then(() => {
             setUsers(prev => prev.filter(u => u.uid !== userToDelete.uid));
             toast({ title: t('toasts.success'), description: t('admin.userDeleted', { name: userToDelete.displayName || userToDelete.email || 'user' }) });
@@ -487,54 +754,120 @@ function UserManager() {
     }
 
 
+    // Sets or, with null, lifts the user's restriction. The server also hides or shows the user's
+    // existing posts and comments when a shadowban is applied or lifted.
+    const handleRestriction = async (target: UserProfile, input: RestrictionInput | null) => {
+        if (!currentUser || !userProfile?.permissions?.restrict_users) {
+            toast({ title: t('toasts.permissionDenied'), variant: 'destructive' });
+            return;
+        }
+        setUpdatingRestriction(target.uid);
+        try {
+            const res = await authorizedFetch(currentUser, `/api/users/${target.uid}/restriction`, {
+                method: 'PUT',
+                body: JSON.stringify({ restriction: input }),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                throw new Error(result.error || 'Could not update the restriction.');
+            }
+            const restriction: UserRestriction | null = result.restriction && {
+                ...result.restriction,
+                expiresAt: result.restriction.expiresAt ? Timestamp.fromMillis(result.restriction.expiresAt) : null,
+                issuedAt: Timestamp.fromMillis(result.restriction.issuedAt),
+            };
+            setUsers(prev => prev.map(u => u.uid === target.uid ? { ...u, restriction } : u));
+            toast({ title: t('toasts.success'), description: restriction ? t('admin.userRestricted') : t('admin.userRestrictionLifted') });
+        } catch (error: any) {
+            toast({ title: t('toasts.error'), description: error.message, variant: 'destructive' });
+        } finally {
+            setUpdatingRestriction(null);
+        }
+    };
+
     if (loading) {
         return <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">{[...Array(6)].map((_, i) => <Skeleton key={i} className="h-28 w-full" />)}</div>
     }
 
     return (
+        <>
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {users.map(user => (
-                <Card key={user.uid}>
-                    <CardHeader className="flex flex-row items-center gap-4 p-4">
-                         <Avatar>
-                            <AvatarImage src={user.photoURL || undefined} alt={user.displayName || 'User'} />
-                            <AvatarFallback>{user.displayName ? user.displayName.charAt(0).toUpperCase() : 'U'}</AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1">
-                            <CardTitle className="text-base">{user.displayName || t('userMenu.anonymousUser')}</CardTitle>
-                            <CardDescription className="text-xs break-all">{user.email || t('admin.noEmail')}</CardDescription>
-                        </div>
-                         {user.role === 'admin' && <Badge variant="secondary">{t('header.admin')}</Badge>}
-                    </CardHeader>
-                    <CardFooter className="p-4 pt-0 flex justify-between items-center">
-                         <p className="text-xs text-muted-foreground">
-                            {t('admin.joined', { date: user.createdAt ? formatDistanceToNow(user.createdAt.toDate(), { addSuffix: true }) : 'N/A' })}
-                        </p>
-                        {userProfile?.permissions?.delete_users && currentUser?.uid !== user.uid && (
-                            <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                    <Button variant="destructive" size="icon" className="h-8 w-8" disabled={deletingUser === user.uid}>
-                                        {deletingUser === user.uid ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
-                                    </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                    <AlertDialogHeader>
-                                        <AlertDialogTitle>{t('admin.deleteUserConfirmationTitle')}</AlertDialogTitle>
-                                        <AlertDialogDescription>
-                                            {t('admin.deleteUserConfirmationDescription')}
-                                        </AlertDialogDescription>
-                                    </AlertDialogHeader>
-                                    <AlertDialogFooter>
-                                        <AlertDialogCancel>{t('buttons.cancel')}</AlertDialogCancel>
-                                        <AlertDialogAction onClick={() => handleDeleteUser(user)}>{t('buttons.delete')}</AlertDialogAction>
-                                    </AlertDialogFooter>
-                                </AlertDialogContent>
-                            </AlertDialog>
+            {users.map(user => {
+                const restriction = activeRestriction(user.restriction);
+                const canRestrict = userProfile?.permissions?.restrict_users && currentUser?.uid !== user.uid && user.role !== 'admin';
+                return (
+                    <Card key={user.uid} className={cn(restriction && "border-destructive/80")}>
+                        <CardHeader className="flex flex-row items-center gap-4 p-4">
+                             <Avatar>
+                                <AvatarImage src={user.photoURL || undefined} alt={user.displayName || 'User'} />
+                                <AvatarFallback>{user.displayName ? user.displayName.charAt(0).toUpperCase() : 'U'}</AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1">
+                                <CardTitle className="text-base">{user.displayName || t('userMenu.anonymousUser')}</CardTitle>
+                                <CardDescription className="text-xs break-all">{user.email || t('admin.noEmail')}</CardDescription>
+                            </div>
+                             {user.role === 'admin' && <Badge variant="secondary">{t('header.admin')}</Badge>}
+                             {restriction && <Badge variant="destructive">{t(`admin.restrictionTypes.${restriction.type}.label`)}</Badge>}
+                        </CardHeader>
+                        {restriction && (
+                            <CardContent className="px-4 pb-4 pt-0 space-y-1 text-sm">
+                                <p className="text-muted-foreground">
+                                    {restriction.expiresAt
+                                        ? t('admin.restrictedUntil', { date: format(restriction.expiresAt.toDate(), 'PPp') })
+                                        : t('admin.restrictedIndefinitely')}
+                                </p>
+                                <p className="break-words">&ldquo;{restriction.reason}&rdquo;</p>
+                            </CardContent>
                         )}
-                    </CardFooter>
-                </Card>
-            ))}
+                        <CardFooter className="p-4 pt-0 flex justify-between items-center">
+                             <p className="text-xs text-muted-foreground">
+                                {t('admin.joined', { date: user.createdAt ? formatDistanceToNow(user.createdAt.toDate(), { addSuffix: true }) : 'N/A' })}
+                            </p>
+                            <div className="flex items-center gap-2">
+                                {canRestrict && (restriction ? (
+                                    <Button variant="outline" size="sm" onClick={() => handleRestriction(user, null)} disabled={updatingRestriction === user.uid}>
+                                        {updatingRestriction === user.uid ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                                        <span className="ml-2">{t('admin.liftRestriction')}</span>
+                                    </Button>
+                                ) : (
+                                    <Button variant="outline" size="sm" onClick={() => setRestrictingUser(user)} disabled={updatingRestriction === user.uid}>
+                                        {updatingRestriction === user.uid ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                                        <span className="ml-2">{t('admin.restrict')}</span>
+                                    </Button>
+                                ))}
+                                {userProfile?.permissions?.delete_users && currentUser?.uid !== user.uid && (
+                                    <AlertDialog>
+                                        <AlertDialogTrigger asChild>
+                                            <Button variant="destructive" size="icon" className="h-8 w-8" disabled={deletingUser === user.uid}>
+                                                {deletingUser === user.uid ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                            </Button>
+                                        </AlertDialogTrigger>
+                                        <AlertDialogContent>
+                                            <AlertDialogHeader>
+                                                <AlertDialogTitle>{t('admin.deleteUserConfirmationTitle')}</AlertDialogTitle>
+                                                <AlertDialogDescription>
+                                                    {t('admin.deleteUserConfirmationDescription')}
+                                                </AlertDialogDescription>
+                                            </AlertDialogHeader>
+                                            <AlertDialogFooter>
+                                                <AlertDialogCancel>{t('buttons.cancel')}</AlertDialogCancel>
+                                                <AlertDialogAction onClick={() => handleDeleteUser(user)}>{t('buttons.delete')}</AlertDialogAction>
+                                            </AlertDialogFooter>
+                                        </AlertDialogContent>
+                                    </AlertDialog>
+                                )}
+                            </div>
+                        </CardFooter>
+                    </Card>
+                );
+            })}
         </div>
+        <RestrictUserDialog
+            open={restrictingUser !== null}
+            onOpenChange={(open) => { if (!open) setRestrictingUser(null); }}
+            onConfirm={(input) => restrictingUser && handleRestriction(restrictingUser, input)}
+        />
+        </>
     );
 }
 // #endregion
@@ -579,9 +912,25 @@ function AdminManager() {
                     return;
                 }
                 
+                if (!user) return;
                 const userDoc = querySnapshot.docs[0];
+                if (userDoc.data().role === 'admin') {
+                    toast({ title: t('admin.alreadyAdminTitle'), description: t('admin.alreadyAdminDescription', { email: data.email }) });
+                    return;
+                }
                 const userRef = doc(db, 'users', userDoc.id);
-                updateDoc(userRef, { role: 'admin' })
+                const batch = writeBatch(db);
+                batch.update(userRef, { role: 'admin' });
+                const audit = auditEntry(user, {
+                    action: 'admin_granted',
+                    targetType: 'user',
+                    targetId: userDoc.id,
+                    targetLabel: data.email,
+                    before: { role: userDoc.data().role },
+                    after: { role: 'admin' },
+                });
+                batch.set(audit.ref, audit.data);
+                batch.commit()
                     .then(() => {
                         toast({ title: t('toasts.success'), description: t('admin.adminAdded', { email: data.email }) });
                         fetchAdmins();
@@ -598,10 +947,22 @@ function AdminManager() {
         });
     }
 
-     const removeAdmin = (adminId: string) => {
+     const removeAdmin = (admin: UserProfile) => {
         startTransition(() => {
-            const adminRef = doc(db, 'users', adminId);
-            updateDoc(adminRef, { role: 'user', permissions: {} })
+            if (!user) return;
+            const adminRef = doc(db, 'users', admin.uid);
+            const batch = writeBatch(db);
+            batch.update(adminRef, { role: 'user', permissions: {} });
+            const audit = auditEntry(user, {
+                action: 'admin_revoked',
+                targetType: 'user',
+                targetId: admin.uid,
+                targetLabel: admin.email,
+                before: { role: admin.role, permissions: admin.permissions || {} },
+                after: { role: 'user', permissions: {} },
+            });
+            batch.set(audit.ref, audit.data);
+            batch.commit()
                 .then(() => {
                     toast({ title: t('toasts.success'), description: t('admin.adminRevoked') });
                     fetchAdmins();
@@ -660,7 +1021,7 @@ function AdminManager() {
                                                 </AlertDialogHeader>
                                                 <AlertDialogFooter>
                                                     <AlertDialogCancel>{t('buttons.cancel')}</AlertDialogCancel>
-                                                    <AlertDialogAction onClick={() => removeAdmin(admin.uid)}>{t('admin.revoke')}</AlertDialogAction>
+                                                    <AlertDialogAction onClick={() => removeAdmin(admin)}>{t('admin.revoke')}</AlertDialogAction>
                                                 </AlertDialogFooter>
                                             </AlertDialogContent>
                                         </AlertDialog>
@@ -682,7 +1043,10 @@ function SettingsManager() {
     const [settings, setSettings] = useState<AppSettings>({ forbiddenWords: [] });
     const [loading, setLoading] = useState(true);
     const [newWord, setNewWord] = useState('');
+    const [reportThreshold, setReportThreshold] = useState(DEFAULT_REPORT_THRESHOLD.toString());
+    const [providerConfigs, setProviderConfigs] = useState<Record<ModerationProviderId, ModerationProviderConfig>>(DEFAULT_MODERATION_PROVIDERS);
     const [isUpdating, startTransition] = useTransition();
+    const { user } = useAuth();
     const { toast } = useToast();
     const { t } = useLocale();
     const settingsRef = useMemo(() => doc(db, 'settings', 'config'), []);
@@ -691,7 +1055,12 @@ function SettingsManager() {
         setLoading(true);
         getDoc(settingsRef).then(docSnap => {
             if (docSnap.exists()) {
-                setSettings(docSnap.data() as AppSettings);
+                const data = docSnap.data() as AppSettings;
+                setSettings(data);
+                setReportThreshold((data.reportThreshold || DEFAULT_REPORT_THRESHOLD).toString());
+                setProviderConfigs(Object.fromEntries(MODERATION_PROVIDER_IDS.map(id => (
+                    [id, { ...DEFAULT_MODERATION_PROVIDERS[id], ...data.moderationProviders?.[id] }]
+                ))) as Record<ModerationProviderId, ModerationProviderConfig>);
             } else {
                 setDoc(settingsRef, { forbiddenWords: [] }, { merge: true }).then(() => {
                     setSettings({ forbiddenWords: [] });
@@ -714,6 +1083,7 @@ function SettingsManager() {
 
     const handleAddWord = () => {
         startTransition(() => {
+            if (!user) return;
             const word = newWord.trim().toLowerCase();
             if (!word) return;
             if (settings.forbiddenWords.includes(word)) {
@@ -722,10 +1092,10 @@ function SettingsManager() {
             }
 
             const updatedWords = [...settings.forbiddenWords, word].sort();
-            setDoc(settingsRef, { forbiddenWords: updatedWords }, { merge: true })
+            saveSettings(user, settingsRef, { forbiddenWords: settings.forbiddenWords }, { forbiddenWords: updatedWords })
                 .then(() => {
                     toast({ title: t('toasts.success'), description: t('admin.wordAdded', { word }) });
-                    setSettings({ forbiddenWords: updatedWords });
+                    setSettings(prev => ({ ...prev, forbiddenWords: updatedWords }));
                     setNewWord('');
                 })
                 .catch(error => {
@@ -737,11 +1107,12 @@ function SettingsManager() {
 
     const handleRemoveWord = (wordToRemove: string) => {
         startTransition(() => {
+            if (!user) return;
             const updatedWords = settings.forbiddenWords.filter(w => w !== wordToRemove);
-            setDoc(settingsRef, { forbiddenWords: updatedWords }, { merge: true })
+            saveSettings(user, settingsRef, { forbiddenWords: settings.forbiddenWords }, { forbiddenWords: updatedWords })
                 .then(() => {
                     toast({ title: t('toasts.success'), description: t('admin.wordRemoved', { word: wordToRemove }) });
-                    setSettings({ forbiddenWords: updatedWords });
+                    setSettings(prev => ({ ...prev, forbiddenWords: updatedWords }));
                 })
                 .catch(error => {
                      const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'update', requestResourceData: { forbiddenWords: updatedWords }});
@@ -750,55 +1121,180 @@ function SettingsManager() {
         });
     };
 
+    const handleSaveThreshold = () => {
+        startTransition(() => {
+            if (!user) return;
+            const threshold = parseInt(reportThreshold, 10);
+            if (!Number.isInteger(threshold) || threshold < 1) {
+                toast({ title: t('toasts.error'), description: t('admin.reportThresholdInvalid'), variant: 'destructive' });
+                return;
+            }
+
+            saveSettings(user, settingsRef, { reportThreshold: settings.reportThreshold ?? DEFAULT_REPORT_THRESHOLD }, { reportThreshold: threshold })
+                .then(() => {
+                    toast({ title: t('toasts.success'), description: t('admin.reportThresholdSaved', { count: threshold.toString() }) });
+                    setSettings(prev => ({ ...prev, reportThreshold: threshold }));
+                })
+                .catch(error => {
+                    const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'update', requestResourceData: { reportThreshold: threshold }});
+                    errorEmitter.emit('permission-error', permissionError);
+                });
+        });
+    };
+
+    const updateProviderConfig = (id: ModerationProviderId, changes: Partial<ModerationProviderConfig>) => {
+        setProviderConfigs(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+    };
+
+    const handleSaveProviders = () => {
+        startTransition(() => {
+            if (!user) return;
+            if (MODERATION_PROVIDER_IDS.some(id => !(providerConfigs[id].threshold >= 0 && providerConfigs[id].threshold <= 1))) {
+                toast({ title: t('toasts.error'), description: t('admin.moderationThresholdInvalid'), variant: 'destructive' });
+                return;
+            }
+
+            saveSettings(user, settingsRef, { moderationProviders: settings.moderationProviders || {} }, { moderationProviders: providerConfigs })
+                .then(() => {
+                    toast({ title: t('toasts.success'), description: t('admin.moderationProvidersSaved') });
+                    setSettings(prev => ({ ...prev, moderationProviders: providerConfigs }));
+                })
+                .catch(error => {
+                    const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'update', requestResourceData: { moderationProviders: providerConfigs }});
+                    errorEmitter.emit('permission-error', permissionError);
+                });
+        });
+    };
+
     if (loading) {
         return <Skeleton className="h-64 w-full" />
     }
 
     return (
-        <Card>
-            <CardHeader>
-                <CardTitle>{t('admin.wordFilterTitle')}</CardTitle>
-                <CardDescription>{t('admin.wordFilterDescription')}</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-                <div className="flex gap-2">
-                    <Input 
-                        value={newWord}
-                        onChange={e => setNewWord(e.target.value)}
-                        placeholder={t('admin.addWordPlaceholder')}
-                        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddWord(); } }}
-                        disabled={isUpdating}
-                    />
-                    <Button onClick={handleAddWord} disabled={isUpdating || !newWord.trim()}>
-                        {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        {t('admin.addWord')}
-                    </Button>
-                </div>
-                <div className="border rounded-md p-4 h-64 overflow-y-auto">
-                    {settings.forbiddenWords.length === 0 ? (
-                        <div className="flex h-full items-center justify-center">
-                            <p className="text-muted-foreground">{t('admin.noWords')}</p>
-                        </div>
-                    ) : (
-                         <div className="flex flex-wrap gap-2">
-                            {settings.forbiddenWords.map(word => (
-                                <div key={word} className="flex items-center gap-1.5 rounded-full border bg-secondary px-2.5 py-1 text-sm font-semibold text-secondary-foreground">
-                                    <span>{word}</span>
-                                    <button 
-                                        onClick={() => handleRemoveWord(word)} 
-                                        disabled={isUpdating} 
-                                        className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full text-secondary-foreground/70 transition-colors hover:bg-background/20 hover:text-secondary-foreground disabled:cursor-not-allowed disabled:opacity-50"
-                                        aria-label={`Remove ${word}`}
-                                    >
-                                        <X className="h-3.5 w-3.5" />
-                                    </button>
+        <div className="space-y-4">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.wordFilterTitle')}</CardTitle>
+                    <CardDescription>{t('admin.wordFilterDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex gap-2">
+                        <Input 
+                            value={newWord}
+                            onChange={e => setNewWord(e.target.value)}
+                            placeholder={t('admin.addWordPlaceholder')}
+                            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddWord(); } }}
+                            disabled={isUpdating}
+                        />
+                        <Button onClick={handleAddWord} disabled={isUpdating || !newWord.trim()}>
+                            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {t('admin.addWord')}
+                        </Button>
+                    </div>
+                    <div className="border rounded-md p-4 h-64 overflow-y-auto">
+                        {settings.forbiddenWords.length === 0 ? (
+                            <div className="flex h-full items-center justify-center">
+                                <p className="text-muted-foreground">{t('admin.noWords')}</p>
+                            </div>
+                        ) : (
+                             <div className="flex flex-wrap gap-2">
+                                {settings.forbiddenWords.map(word => (
+                                    <div key={word} className="flex items-center gap-1.5 rounded-full border bg-secondary px-2.5 py-1 text-sm font-semibold text-secondary-foreground">
+                                        <span>{word}</span>
+                                        <button 
+                                            onClick={() => handleRemoveWord(word)} 
+                                            disabled={isUpdating} 
+                                            className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full text-secondary-foreground/70 transition-colors hover:bg-background/20 hover:text-secondary-foreground disabled:cursor-not-allowed disabled:opacity-50"
+                                            aria-label={`Remove ${word}`}
+                                        >
+                                            <X className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.reportThresholdTitle')}</CardTitle>
+                    <CardDescription>{t('admin.reportThresholdDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex gap-2">
+                        <Input
+                            type="number"
+                            min={1}
+                            value={reportThreshold}
+                            onChange={e => setReportThreshold(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleSaveThreshold(); } }}
+                            className="max-w-[8rem]"
+                            disabled={isUpdating}
+                        />
+                        <Button onClick={handleSaveThreshold} disabled={isUpdating || reportThreshold === (settings.reportThreshold || DEFAULT_REPORT_THRESHOLD).toString()}>
+                            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {t('buttons.save')}
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.moderationProvidersTitle')}</CardTitle>
+                    <CardDescription>{t('admin.moderationProvidersDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {MODERATION_PROVIDER_IDS.map(id => (
+                        <div key={id} className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between">
+                            <div className="flex items-start gap-3">
+                                <Switch
+                                    id={`provider-${id}`}
+                                    checked={providerConfigs[id].enabled}
+                                    onCheckedChange={checked => updateProviderConfig(id, { enabled: checked })}
+                                    disabled={isUpdating}
+                                />
+                                <div>
+                                    <Label htmlFor={`provider-${id}`}>{t(`admin.moderationProviders.${id}.label`)}</Label>
+                                    <p className="text-sm text-muted-foreground">{t(`admin.moderationProviders.${id}.description`)}</p>
                                 </div>
-                            ))}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Label htmlFor={`provider-${id}-threshold`} className="text-sm text-muted-foreground">{t('admin.moderationThreshold')}</Label>
+                                <Input
+                                    id={`provider-${id}-threshold`}
+                                    type="number"
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    value={providerConfigs[id].threshold}
+                                    onChange={e => updateProviderConfig(id, { threshold: parseFloat(e.target.value) })}
+                                    className="w-20"
+                                    disabled={isUpdating || !providerConfigs[id].enabled}
+                                />
+                                <Select
+                                    value={providerConfigs[id].action}
+                                    onValueChange={value => updateProviderConfig(id, { action: value as ModerationProviderConfig['action'] })}
+                                    disabled={isUpdating || !providerConfigs[id].enabled}
+                                >
+                                    <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="review">{t('admin.moderationAction.review')}</SelectItem>
+                                        <SelectItem value="reject">{t('admin.moderationAction.reject')}</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
                         </div>
-                    )}
-                </div>
-            </CardContent>
-        </Card>
+                    ))}
+                </CardContent>
+                <CardFooter>
+                    <Button onClick={handleSaveProviders} disabled={isUpdating}>
+                        {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('buttons.save')}
+                    </Button>
+                </CardFooter>
+            </Card>
+        </div>
     );
 }
 // #endregion
@@ -809,6 +1305,7 @@ function ProtectedNamesManager() {
     const [loading, setLoading] = useState(true);
     const [newName, setNewName] = useState('');
     const [isUpdating, startTransition] = useTransition();
+    const { user } = useAuth();
     const { toast } = useToast();
     const { t } = useLocale();
     const settingsRef = useMemo(() => doc(db, 'settings', 'protectedNames'), []);
@@ -840,6 +1337,7 @@ function ProtectedNamesManager() {
 
     const handleAddName = () => {
         startTransition(() => {
+            if (!user) return;
             const name = newName.trim().toLowerCase();
             if (!name) return;
             if (protectedNames.includes(name)) {
@@ -848,7 +1346,7 @@ function ProtectedNamesManager() {
             }
 
             const updatedNames = [...protectedNames, name].sort();
-            setDoc(settingsRef, { names: updatedNames }, { merge: true })
+            saveSettings(user, settingsRef, { names: protectedNames }, { names: updatedNames })
                 .then(() => {
                     toast({ title: t('toasts.success'), description: t('admin.nameAdded', { name }) });
                     setProtectedNames(updatedNames);
@@ -863,8 +1361,9 @@ function ProtectedNamesManager() {
 
     const handleRemoveName = (nameToRemove: string) => {
         startTransition(() => {
+            if (!user) return;
             const updatedNames = protectedNames.filter(n => n !== nameToRemove);
-             setDoc(settingsRef, { names: updatedNames }, { merge: true })
+             saveSettings(user, settingsRef, { names: protectedNames }, { names: updatedNames })
                 .then(() => {
                     toast({ title: t('toasts.success'), description: t('admin.nameRemoved', { name: nameToRemove }) });
                     setProtectedNames(updatedNames);
@@ -929,6 +1428,803 @@ function ProtectedNamesManager() {
 }
 // #endregion
 
+// #region Allowlist Manager
+function AllowlistManager() {
+    const [allowlist, setAllowlist] = useState<string[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [newEntry, setNewEntry] = useState('');
+    const [isUpdating, startTransition] = useTransition();
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const { t } = useLocale();
+    const settingsRef = useMemo(() => doc(db, 'settings', 'allowlist'), []);
+
+    const fetchSettings = useCallback(() => {
+        setLoading(true);
+        getDoc(settingsRef).then(docSnap => {
+            if (docSnap.exists()) {
+                setAllowlist(docSnap.data().entries || []);
+            } else {
+                setDoc(settingsRef, { entries: [] }, { merge: true })
+                .then(() => setAllowlist([]))
+                .catch(error => {
+                    const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'create', requestResourceData: { entries: [] }});
+                    errorEmitter.emit('permission-error', permissionError);
+                });
+            }
+        }).catch(e => {
+            const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'get' });
+            errorEmitter.emit('permission-error', permissionError);
+        }).finally(() => {
+            setLoading(false);
+        });
+    }, [settingsRef]);
+
+    useEffect(() => {
+        fetchSettings();
+    }, [fetchSettings]);
+
+    const handleAddEntry = () => {
+        startTransition(() => {
+            if (!user) return;
+            const entry = newEntry.trim().toLowerCase();
+            if (!entry) return;
+            if (allowlist.includes(entry)) {
+                toast({ title: t('admin.allowlistEntryExistsTitle'), description: t('admin.allowlistEntryExistsDescription', { entry }), variant: "default" });
+                return;
+            }
+
+            const updatedEntries = [...allowlist, entry].sort();
+            saveSettings(user, settingsRef, { entries: allowlist }, { entries: updatedEntries })
+                .then(() => {
+                    toast({ title: t('toasts.success'), description: t('admin.allowlistEntryAdded', { entry }) });
+                    setAllowlist(updatedEntries);
+                    setNewEntry('');
+                })
+                .catch(error => {
+                    const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'update', requestResourceData: { entries: updatedEntries }});
+                    errorEmitter.emit('permission-error', permissionError);
+                });
+        });
+    };
+
+    const handleRemoveEntry = (entryToRemove: string) => {
+        startTransition(() => {
+            if (!user) return;
+            const updatedEntries = allowlist.filter(e => e !== entryToRemove);
+             saveSettings(user, settingsRef, { entries: allowlist }, { entries: updatedEntries })
+                .then(() => {
+                    toast({ title: t('toasts.success'), description: t('admin.allowlistEntryRemoved', { entry: entryToRemove }) });
+                    setAllowlist(updatedEntries);
+                })
+                .catch(error => {
+                    const permissionError = new FirestorePermissionError({ path: settingsRef.path, operation: 'update', requestResourceData: { entries: updatedEntries }});
+                    errorEmitter.emit('permission-error', permissionError);
+                });
+        });
+    };
+
+    if (loading) {
+        return <Skeleton className="h-64 w-full" />
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{t('admin.allowlistTitle')}</CardTitle>
+                <CardDescription>{t('admin.allowlistDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                    <Input 
+                        value={newEntry}
+                        onChange={e => setNewEntry(e.target.value)}
+                        placeholder={t('admin.addAllowlistEntryPlaceholder')}
+                        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddEntry(); } }}
+                        disabled={isUpdating}
+                    />
+                    <Button onClick={handleAddEntry} disabled={isUpdating || !newEntry.trim()}>
+                        {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('admin.addAllowlistEntry')}
+                    </Button>
+                </div>
+                <div className="border rounded-md p-4 h-64 overflow-y-auto">
+                    {allowlist.length === 0 ? (
+                        <div className="flex h-full items-center justify-center">
+                            <p className="text-muted-foreground">{t('admin.noAllowlistEntries')}</p>
+                        </div>
+                    ) : (
+                         <div className="flex flex-wrap gap-2">
+                            {allowlist.map(entry => (
+                                <div key={entry} className="flex items-center gap-1.5 rounded-full border bg-secondary px-2.5 py-1 text-sm font-semibold text-secondary-foreground">
+                                    <span>{entry}</span>
+                                    <button 
+                                        onClick={() => handleRemoveEntry(entry)} 
+                                        disabled={isUpdating} 
+                                        className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full text-secondary-foreground/70 transition-colors hover:bg-background/20 hover:text-secondary-foreground disabled:cursor-not-allowed disabled:opacity-50"
+                                        aria-label={`Remove ${entry}`}
+                                    >
+                                        <X className="h-3.5 w-3.5" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+// #endregion
+
+// #region Moderation Tester
+type DryRunResult = {
+    checked: number;
+    flagged: { id: string; title: string; currentStatus: Post['status']; draftStatus: Post['status']; reason: ModerationProviderId | null; reasons: string[] }[];
+};
+
+const toList = (text: string) => text.split('\n').map(line => line.trim().toLowerCase()).filter(Boolean);
+
+function ModerationTester() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const { t } = useLocale();
+    const [loading, setLoading] = useState(true);
+    const [title, setTitle] = useState('');
+    const [content, setContent] = useState('');
+    const [useDraft, setUseDraft] = useState(false);
+    const [result, setResult] = useState<ModerationResult | null>(null);
+    const [savedLists, setSavedLists] = useState({ forbiddenWords: '', protectedNames: '', allowlist: '' });
+    const [draftWords, setDraftWords] = useState('');
+    const [draftNames, setDraftNames] = useState('');
+    const [draftAllowlist, setDraftAllowlist] = useState('');
+    const [dryRunLimit, setDryRunLimit] = useState('50');
+    const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+    const [isTesting, startTesting] = useTransition();
+    const [isDryRunning, startDryRun] = useTransition();
+
+    useEffect(() => {
+        Promise.all([getDoc(doc(db, 'settings', 'config')), getDoc(doc(db, 'settings', 'protectedNames')), getDoc(doc(db, 'settings', 'allowlist'))])
+            .then(([configSnap, namesSnap, allowlistSnap]) => {
+                const lists = {
+                    forbiddenWords: ((configSnap.data()?.forbiddenWords as string[] | undefined) || []).join('\n'),
+                    protectedNames: ((namesSnap.data()?.names as string[] | undefined) || []).join('\n'),
+                    allowlist: ((allowlistSnap.data()?.entries as string[] | undefined) || []).join('\n'),
+                };
+                setSavedLists(lists);
+                setDraftWords(lists.forbiddenWords);
+                setDraftNames(lists.protectedNames);
+                setDraftAllowlist(lists.allowlist);
+            })
+            .catch(() => {
+                const permissionError = new FirestorePermissionError({ path: 'settings', operation: 'get' });
+                errorEmitter.emit('permission-error', permissionError);
+            })
+            .finally(() => setLoading(false));
+    }, []);
+
+    const overrides = { forbiddenWords: toList(draftWords), protectedNames: toList(draftNames), allowlist: toList(draftAllowlist) };
+    const hasDraftChanges = draftWords !== savedLists.forbiddenWords || draftNames !== savedLists.protectedNames || draftAllowlist !== savedLists.allowlist;
+
+    const handleTest = () => {
+        if (!user) return;
+        startTesting(async () => {
+            try {
+                const res = await authorizedFetch(user, '/api/check-content', {
+                    method: 'POST',
+                    body: JSON.stringify({ title, content, overrides: useDraft ? overrides : undefined }),
+                });
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error);
+                setResult(data);
+            } catch (error: any) {
+                toast({ title: t('toasts.error'), description: error.message, variant: 'destructive' });
+            }
+        });
+    };
+
+    const handleDryRun = () => {
+        if (!user) return;
+        startDryRun(async () => {
+            try {
+                const res = await authorizedFetch(user, '/api/check-content/dry-run', {
+                    method: 'POST',
+                    body: JSON.stringify({ overrides, limit: parseInt(dryRunLimit, 10) || 50 }),
+                });
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error);
+                setDryRun(data);
+            } catch (error: any) {
+                toast({ title: t('toasts.error'), description: error.message, variant: 'destructive' });
+            }
+        });
+    };
+
+    if (loading) {
+        return <Skeleton className="h-64 w-full" />
+    }
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.testerTitle')}</CardTitle>
+                    <CardDescription>{t('admin.testerDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <Input value={title} onChange={e => setTitle(e.target.value)} placeholder={t('admin.testerTitlePlaceholder')} disabled={isTesting} />
+                    <Textarea value={content} onChange={e => setContent(e.target.value)} placeholder={t('admin.testerContentPlaceholder')} rows={4} disabled={isTesting} />
+                    <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center space-x-2">
+                            <Switch id="tester-use-draft" checked={useDraft} onCheckedChange={setUseDraft} />
+                            <Label htmlFor="tester-use-draft">{t('admin.testerUseDraft')}</Label>
+                        </div>
+                        <Button onClick={handleTest} disabled={isTesting || (!title.trim() && !content.trim())}>
+                            {isTesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {t('admin.testerRun')}
+                        </Button>
+                    </div>
+                    {result && (
+                        <div className="space-y-3 border-t pt-4">
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm font-medium">{t('admin.testerVerdict')}</span>
+                                <Badge variant={
+                                    result.status === 'approved' ? 'secondary' :
+                                    result.status === 'rejected' ? 'destructive' :
+                                    'default'
+                                } className="capitalize">{result.status}</Badge>
+                            </div>
+                            {result.checks.map(check => (
+                                <div key={check.providerId} className={cn("rounded-md border p-3", check.fired && "border-destructive/60")}>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-medium">{t(`admin.moderationProviders.${check.providerId}.label`)}</span>
+                                        <span className="text-sm text-muted-foreground">
+                                            {t('admin.testerScore', { score: check.score.toFixed(2), threshold: check.config.threshold.toString() })}
+                                            {check.fired && <Badge variant="destructive" className="ml-2">{t(`admin.moderationAction.${check.config.action}`)}</Badge>}
+                                        </span>
+                                    </div>
+                                    {check.error && <p className="mt-1 text-sm text-destructive">{check.error}</p>}
+                                    {check.reasons.length > 0 && (
+                                        <ul className="mt-1 list-disc pl-5 text-sm text-muted-foreground">
+                                            {check.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                                        </ul>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('admin.dryRunTitle')}</CardTitle>
+                    <CardDescription>{t('admin.dryRunDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="draft-words">{t('admin.wordFilter')}</Label>
+                            <Textarea id="draft-words" value={draftWords} onChange={e => setDraftWords(e.target.value)} rows={8} disabled={isDryRunning} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="draft-names">{t('admin.protectedNames')}</Label>
+                            <Textarea id="draft-names" value={draftNames} onChange={e => setDraftNames(e.target.value)} rows={8} disabled={isDryRunning} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="draft-allowlist">{t('admin.allowlist')}</Label>
+                            <Textarea id="draft-allowlist" value={draftAllowlist} onChange={e => setDraftAllowlist(e.target.value)} rows={8} disabled={isDryRunning} />
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="dry-run-limit" className="text-sm text-muted-foreground">{t('admin.dryRunLimit')}</Label>
+                            <Input id="dry-run-limit" type="number" min={1} max={200} value={dryRunLimit} onChange={e => setDryRunLimit(e.target.value)} className="w-24" disabled={isDryRunning} />
+                        </div>
+                        <Button onClick={handleDryRun} disabled={isDryRunning || !hasDraftChanges}>
+                            {isDryRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {t('admin.dryRunRun')}
+                        </Button>
+                    </div>
+                    {dryRun && (
+                        <div className="space-y-3 border-t pt-4">
+                            <p className="text-sm text-muted-foreground">
+                                {t('admin.dryRunSummary', { flagged: dryRun.flagged.length.toString(), checked: dryRun.checked.toString() })}
+                            </p>
+                            {dryRun.flagged.map(post => (
+                                <div key={post.id} className="rounded-md border p-3">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <Link href={`/post/${post.id}`} target="_blank" className="font-medium hover:underline break-all">{post.title}</Link>
+                                        <div className="flex shrink-0 gap-2">
+                                            {post.currentStatus !== 'approved' && <Badge variant="outline">{t('admin.dryRunAlreadyFlagged')}</Badge>}
+                                            <Badge variant={post.draftStatus === 'rejected' ? 'destructive' : 'default'} className="capitalize">{post.draftStatus}</Badge>
+                                        </div>
+                                    </div>
+                                    <ul className="mt-1 list-disc pl-5 text-sm text-muted-foreground">
+                                        {post.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+// #endregion
+
+// #region Reports Manager
+function ReportsManager() {
+    const [reports, setReports] = useState<Report[]>([]);
+    const [posts, setPosts] = useState<Record<string, Post | null>>({});
+    const [comments, setComments] = useState<Record<string, CommentType | null>>({});
+    const [loading, setLoading] = useState(true);
+    const [updating, setUpdating] = useState<Record<string, boolean>>({});
+    const [showReviewed, setShowReviewed] = useState(false);
+    const { toast } = useToast();
+    const { t } = useLocale();
+    const { user, userProfile } = useAuth();
+
+    const fetchReports = useCallback(async () => {
+        setLoading(true);
+        try {
+            const reportsRef = collection(db, 'reports');
+            const q = query(reportsRef, orderBy('createdAt', 'desc'));
+            const querySnapshot = await getDocs(q);
+            const reportsData = querySnapshot.docs.map(d => ({ id: d.id, ...d.data() } as Report));
+            setReports(reportsData);
+
+            // Load the reported posts and comments so admins can see what was reported.
+            const postIds = Array.from(new Set(reportsData.map(r => r.postId)));
+            const commentIds = Array.from(new Set(reportsData.filter(r => r.commentId).map(r => r.commentId as string)));
+
+            const postSnaps = await Promise.all(postIds.map(id => getDoc(doc(db, 'posts', id))));
+            setPosts(postSnaps.reduce((acc, snap) => {
+                acc[snap.id] = snap.exists() ? { id: snap.id, ...snap.data() } as Post : null;
+                return acc;
+            }, {} as Record<string, Post | null>));
+
+            const commentSnaps = await Promise.all(commentIds.map(id => getDoc(doc(db, 'comments', id))));
+            setComments(commentSnaps.reduce((acc, snap) => {
+                acc[snap.id] = snap.exists() ? { id: snap.id, ...snap.data() } as CommentType : null;
+                return acc;
+            }, {} as Record<string, CommentType | null>));
+        } catch (error) {
+            console.error("Error fetching reports:", error);
+            toast({ title: t('toasts.error'), description: t('toasts.fetchError'), variant: 'destructive' });
+        } finally {
+            setLoading(false);
+        }
+    }, [toast, t]);
+
+    useEffect(() => {
+        fetchReports();
+    }, [fetchReports]);
+
+    const handleReportDecision = (reportId: string, status: 'resolved' | 'dismissed') => {
+        if (!userProfile?.permissions?.manage_reports || !user) {
+            toast({ title: t('toasts.permissionDenied'), variant: 'destructive'});
+            return;
+        }
+        setUpdating(prev => ({ ...prev, [reportId]: true }));
+        const reportRef = doc(db, 'reports', reportId);
+        const update = { status, reviewedBy: user.uid, reviewedAt: serverTimestamp() };
+        const report = reports.find(r => r.id === reportId);
+        const batch = writeBatch(db);
+        batch.update(reportRef, update);
+        const audit = auditEntry(user, {
+            action: 'report_decision',
+            targetType: 'report',
+            targetId: reportId,
+            targetLabel: report ? `${report.targetType} ${report.commentId || report.postId}` : null,
+            before: { status: report?.status },
+            after: { status },
+        });
+        batch.set(audit.ref, audit.data);
+        batch.commit()
+            .then(() => {
+                setReports(prev => prev.map(r => r.id === reportId ? { ...r, status } : r));
+                toast({ title: t('toasts.success'), description: t('admin.reportDecisionSuccess', { status: t(`admin.reportStatus.${status}`).toLowerCase() }) });
+            })
+            .catch(error => {
+                const permissionError = new FirestorePermissionError({ path: reportRef.path, operation: 'update', requestResourceData: update });
+                errorEmitter.emit('permission-error', permissionError);
+            })
+            .finally(() => {
+                setUpdating(prev => ({ ...prev, [reportId]: false }));
+            });
+    };
+
+    const visibleReports = reports.filter(r => showReviewed ? true : r.status === 'pending');
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardContent className="p-4 flex items-center space-x-2">
+                    <Switch id="show-reviewed" checked={showReviewed} onCheckedChange={setShowReviewed} />
+                    <Label htmlFor="show-reviewed">{t('admin.showReviewedReports')}</Label>
+                </CardContent>
+            </Card>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {loading ? [...Array(3)].map((_, i) => <Skeleton key={i} className="h-48 w-full" />) :
+                visibleReports.map(report => {
+                    const post = posts[report.postId];
+                    const comment = report.commentId ? comments[report.commentId] : null;
+                    const targetMissing = report.commentId ? !comment : !post;
+                    return (
+                        <Card key={report.id} className={cn(report.status === 'pending' && "border-yellow-500/80")}>
+                            <CardHeader>
+                                <CardTitle className="flex justify-between items-start gap-2 text-base">
+                                    <span>{t(`reports.reasons.${report.reason}`)}</span>
+                                    <Badge variant={report.status === 'pending' ? 'default' : 'secondary'} className="shrink-0">
+                                        {t(`admin.reportStatus.${report.status}`)}
+                                    </Badge>
+                                </CardTitle>
+                                <CardDescription>
+                                    {report.targetType === 'comment' ? t('admin.reportedComment') : t('admin.reportedPost')}
+                                    {' • '}
+                                    {report.createdAt ? formatDistanceToNow(report.createdAt.toDate(), { addSuffix: true }) : ''}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                                {targetMissing ? (
+                                    <p className="text-sm text-muted-foreground italic">{t('admin.reportTargetDeleted')}</p>
+                                ) : (
+                                    <>
+                                        {post && <p className="font-semibold break-all">{post.title}</p>}
+                                        {comment && <p className="p-3 bg-muted rounded-md line-clamp-3 text-sm">{comment.content}</p>}
+                                    </>
+                                )}
+                                {report.details && <p className="text-sm text-muted-foreground">&ldquo;{report.details}&rdquo;</p>}
+                            </CardContent>
+                            <CardFooter className="flex justify-end gap-2">
+                                {post && (
+                                    <Button asChild variant="outline" size="sm" className="mr-auto">
+                                        <Link href={`/post/${report.postId}`} target="_blank">
+                                            <ExternalLink className="h-4 w-4" />
+                                            <span className="ml-2">{t('admin.viewPost')}</span>
+                                        </Link>
+                                    </Button>
+                                )}
+                                {report.status === 'pending' && (
+                                    <>
+                                        <Button variant="ghost" size="sm" onClick={() => handleReportDecision(report.id, 'dismissed')} disabled={updating[report.id]}>
+                                            {updating[report.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                                            <span className="ml-2">{t('admin.dismiss')}</span>
+                                        </Button>
+                                        <Button variant="default" size="sm" onClick={() => handleReportDecision(report.id, 'resolved')} disabled={updating[report.id]}>
+                                            {updating[report.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                                            <span className="ml-2">{t('admin.resolve')}</span>
+                                        </Button>
+                                    </>
+                                )}
+                            </CardFooter>
+                        </Card>
+                    );
+                })}
+            </div>
+            {!loading && visibleReports.length === 0 && <p className="text-center text-muted-foreground py-8">{t('admin.noReports')}</p>}
+        </div>
+    );
+}
+// #endregion
+
+// #region Appeals
+function AppealsManager() {
+    const [appeals, setAppeals] = useState<Appeal[]>([]);
+    const [posts, setPosts] = useState<Record<string, Post | null>>({});
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(true);
+    const [updating, setUpdating] = useState<Record<string, boolean>>({});
+    const [showResolved, setShowResolved] = useState(false);
+    const { toast } = useToast();
+    const { t } = useLocale();
+    const { user, userProfile } = useAuth();
+
+    const fetchAppeals = useCallback(async () => {
+        setLoading(true);
+        try {
+            const q = query(collection(db, 'appeals'), orderBy('createdAt', 'desc'));
+            const querySnapshot = await getDocs(q);
+            const appealsData = querySnapshot.docs.map(d => ({ id: d.id, ...d.data() } as Appeal));
+            setAppeals(appealsData);
+
+            // The post as it is now: the author may have edited it since appealing.
+            const postIds = Array.from(new Set(appealsData.map(a => a.postId)));
+            const postSnaps = await Promise.all(postIds.map(id => getDoc(doc(db, 'posts', id))));
+            setPosts(postSnaps.reduce((acc, snap) => {
+                acc[snap.id] = snap.exists() ? { id: snap.id, ...snap.data() } as Post : null;
+                return acc;
+            }, {} as Record<string, Post | null>));
+        } catch (error) {
+            console.error("Error fetching appeals:", error);
+            toast({ title: t('toasts.error'), description: t('toasts.fetchError'), variant: 'destructive' });
+        } finally {
+            setLoading(false);
+        }
+    }, [toast, t]);
+
+    useEffect(() => {
+        fetchAppeals();
+    }, [fetchAppeals]);
+
+    // Resolves the appeal, applies the outcome to the post or image and tells the author, all in one batch.
+    const handleAppealDecision = (appeal: Appeal, outcome: Exclude<AppealStatus, 'pending'>) => {
+        if (!user || !userProfile?.permissions?.review_appeals) {
+            toast({ title: t('toasts.permissionDenied'), variant: 'destructive'});
+            return;
+        }
+        setUpdating(prev => ({ ...prev, [appeal.id]: true }));
+        const note = notes[appeal.id]?.trim() || null;
+        const appealRef = doc(db, 'appeals', appeal.id);
+        const appealUpdate = { status: outcome, reviewedBy: user.uid, reviewedAt: serverTimestamp(), resolutionNote: note };
+        const batch = writeBatch(db);
+        batch.update(appealRef, appealUpdate);
+
+        const post = posts[appeal.postId];
+        let postUpdate: Partial<Post> | null = null;
+        if (post) {
+            const overturned = outcome === 'overturned';
+            if (appeal.targetType === 'image') {
+                const images = (post.images || []).map(img => img.url !== appeal.imageUrl ? img : overturned
+                    ? { ...img, status: 'approved' as const, rejectionReason: null, rejectionNote: null, appealStatus: outcome }
+                    : { ...img, appealStatus: outcome });
+                postUpdate = { images };
+            } else {
+                postUpdate = overturned
+                    ? { status: 'approved', isFlagged: false, rejectionReason: null, rejectionNote: null, appealStatus: outcome }
+                    : { appealStatus: outcome };
+            }
+            batch.update(doc(db, 'posts', post.id), { ...postUpdate, updatedAt: serverTimestamp() });
+        }
+
+        batch.set(doc(collection(db, 'notifications')), {
+            userId: appeal.authorUid,
+            type: 'appeal_resolved',
+            postId: appeal.postId,
+            postTitle: appeal.postTitle,
+            appealId: appeal.id,
+            outcome,
+            note,
+            read: false,
+            createdAt: serverTimestamp(),
+        });
+
+        const audit = auditEntry(user, {
+            action: 'appeal_resolved',
+            targetType: 'appeal',
+            targetId: appeal.id,
+            targetLabel: appeal.targetType === 'image' ? `${appeal.postTitle} (image)` : appeal.postTitle,
+            before: { status: appeal.status },
+            after: { status: outcome, resolutionNote: note },
+        });
+        batch.set(audit.ref, audit.data);
+
+        batch.commit()
+            .then(() => {
+                setAppeals(prev => prev.map(a => a.id === appeal.id ? { ...a, status: outcome, resolutionNote: note } : a));
+                if (post && postUpdate) {
+                    setPosts(prev => ({ ...prev, [post.id]: { ...post, ...postUpdate } }));
+                }
+                toast({ title: t('toasts.success'), description: t(`admin.appealResolved.${outcome}`) });
+            })
+            .catch(error => {
+                const permissionError = new FirestorePermissionError({ path: appealRef.path, operation: 'update', requestResourceData: appealUpdate });
+                errorEmitter.emit('permission-error', permissionError);
+            })
+            .finally(() => {
+                setUpdating(prev => ({ ...prev, [appeal.id]: false }));
+            });
+    };
+
+    const visibleAppeals = appeals.filter(a => showResolved ? true : a.status === 'pending');
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardContent className="p-4 flex items-center space-x-2">
+                    <Switch id="show-resolved-appeals" checked={showResolved} onCheckedChange={setShowResolved} />
+                    <Label htmlFor="show-resolved-appeals">{t('admin.showResolvedAppeals')}</Label>
+                </CardContent>
+            </Card>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {loading ? [...Array(3)].map((_, i) => <Skeleton key={i} className="h-48 w-full" />) :
+                visibleAppeals.map(appeal => {
+                    const post = posts[appeal.postId];
+                    return (
+                        <Card key={appeal.id} className={cn(appeal.status === 'pending' && "border-yellow-500/80")}>
+                            <CardHeader>
+                                <CardTitle className="flex justify-between items-start gap-2 text-base">
+                                    <span className="break-all">{appeal.postTitle}</span>
+                                    <Badge variant={appeal.status === 'pending' ? 'default' : 'secondary'} className="shrink-0">
+                                        {t(`admin.appealStatus.${appeal.status}`)}
+                                    </Badge>
+                                </CardTitle>
+                                <CardDescription>
+                                    {appeal.targetType === 'image' ? t('admin.appealedImage') : t('admin.appealedPost')}
+                                    {' • '}
+                                    {appeal.rejectionReason
+                                        ? t(`rejectionReasons.${appeal.rejectionReason}`)
+                                        : appeal.moderationReason ? t(`admin.moderationProviders.${appeal.moderationReason}.label`) : t('rejectionReasons.other')}
+                                    {' • '}
+                                    {appeal.createdAt ? formatDistanceToNow(appeal.createdAt.toDate(), { addSuffix: true }) : ''}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                                {appeal.imageUrl && (
+                                    <div className="relative aspect-video">
+                                        <Image src={appeal.imageUrl} alt={appeal.postTitle} fill className="rounded-md object-contain bg-muted" />
+                                    </div>
+                                )}
+                                {!post && <p className="text-sm text-muted-foreground italic">{t('admin.reportTargetDeleted')}</p>}
+                                <p className="p-3 bg-muted rounded-md text-sm whitespace-pre-wrap">{appeal.message}</p>
+                                {appeal.status === 'pending' ? (
+                                    <Textarea
+                                        value={notes[appeal.id] || ''}
+                                        onChange={(e) => setNotes(prev => ({ ...prev, [appeal.id]: e.target.value }))}
+                                        placeholder={t('admin.appealNotePlaceholder')}
+                                        maxLength={500}
+                                        rows={2}
+                                    />
+                                ) : appeal.resolutionNote && (
+                                    <p className="text-sm text-muted-foreground">&ldquo;{appeal.resolutionNote}&rdquo;</p>
+                                )}
+                            </CardContent>
+                            <CardFooter className="flex justify-end gap-2">
+                                {post && (
+                                    <Button asChild variant="outline" size="sm" className="mr-auto">
+                                        <Link href={`/post/${appeal.postId}`} target="_blank">
+                                            <ExternalLink className="h-4 w-4" />
+                                            <span className="ml-2">{t('admin.viewPost')}</span>
+                                        </Link>
+                                    </Button>
+                                )}
+                                {appeal.status === 'pending' && (
+                                    <>
+                                        <Button variant="ghost" size="sm" onClick={() => handleAppealDecision(appeal, 'upheld')} disabled={updating[appeal.id]}>
+                                            {updating[appeal.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                                            <span className="ml-2">{t('admin.upholdAppeal')}</span>
+                                        </Button>
+                                        <Button variant="default" size="sm" onClick={() => handleAppealDecision(appeal, 'overturned')} disabled={updating[appeal.id]}>
+                                            {updating[appeal.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                                            <span className="ml-2">{t('admin.overturnAppeal')}</span>
+                                        </Button>
+                                    </>
+                                )}
+                            </CardFooter>
+                        </Card>
+                    );
+                })}
+            </div>
+            {!loading && visibleAppeals.length === 0 && <p className="text-center text-muted-foreground py-8">{t('admin.noAppeals')}</p>}
+        </div>
+    );
+}
+// #endregion
+
+
+// #region Audit Log
+const formatAuditValue = (value: unknown) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text && text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+function AuditLogManager() {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [actorFilter, setActorFilter] = useState('all');
+    const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const { toast } = useToast();
+    const { t } = useLocale();
+
+    // Only the date range is queried; actor and action are filtered on the client
+    // so the log doesn't need a composite index per filter combination.
+    const fetchEntries = useCallback(async () => {
+        setLoading(true);
+        try {
+            const constraints = [];
+            if (fromDate) constraints.push(where('createdAt', '>=', Timestamp.fromDate(new Date(`${fromDate}T00:00:00`))));
+            if (toDate) constraints.push(where('createdAt', '<=', Timestamp.fromDate(new Date(`${toDate}T23:59:59.999`))));
+            const q = query(collection(db, 'auditLog'), ...constraints, orderBy('createdAt', 'desc'), limit(500));
+            const snapshot = await getDocs(q);
+            setEntries(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as AuditLogEntry)));
+        } catch (error) {
+            console.error("Error fetching audit log:", error);
+            toast({ title: t('toasts.error'), description: t('toasts.fetchError'), variant: 'destructive' });
+        } finally {
+            setLoading(false);
+        }
+    }, [fromDate, toDate, toast, t]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const actors = useMemo(() => {
+        const byUid = new Map<string, string>();
+        entries.forEach(entry => byUid.set(entry.actorUid, entry.actorEmail || entry.actorUid));
+        return Array.from(byUid.entries());
+    }, [entries]);
+
+    const visibleEntries = entries
+        .filter(entry => actorFilter === 'all' || entry.actorUid === actorFilter)
+        .filter(entry => actionFilter === 'all' || entry.action === actionFilter);
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardContent className="p-4 grid gap-4 md:grid-cols-4">
+                    <div className="space-y-2">
+                        <Label>{t('admin.auditActor')}</Label>
+                        <Select value={actorFilter} onValueChange={setActorFilter}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">{t('admin.auditAll')}</SelectItem>
+                                {actors.map(([uid, label]) => <SelectItem key={uid} value={uid}>{label}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>{t('admin.auditAction')}</Label>
+                        <Select value={actionFilter} onValueChange={value => setActionFilter(value as AuditAction | 'all')}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">{t('admin.auditAll')}</SelectItem>
+                                {AUDIT_ACTIONS.map(action => <SelectItem key={action} value={action}>{t(`admin.auditActions.${action}`)}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="audit-from">{t('admin.auditFrom')}</Label>
+                        <Input id="audit-from" type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="audit-to">{t('admin.auditTo')}</Label>
+                        <Input id="audit-to" type="date" value={toDate} onChange={e => setToDate(e.target.value)} />
+                    </div>
+                </CardContent>
+            </Card>
+            {loading ? (
+                <div className="space-y-2">{[...Array(5)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)}</div>
+            ) : visibleEntries.length === 0 ? (
+                <p className="text-muted-foreground text-center py-12">{t('admin.noAuditEntries')}</p>
+            ) : (
+                <div className="space-y-2">
+                    {visibleEntries.map(entry => {
+                        const changedKeys = Array.from(new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]));
+                        return (
+                            <Card key={entry.id}>
+                                <CardContent className="p-4 space-y-2">
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <Badge variant="secondary">{t(`admin.auditActions.${entry.action}`)}</Badge>
+                                            <span className="text-sm font-medium break-all">{entry.targetLabel || entry.targetId}</span>
+                                        </div>
+                                        <span className="text-xs text-muted-foreground">
+                                            {entry.actorEmail || entry.actorUid} · {entry.createdAt ? formatDistanceToNow(entry.createdAt.toDate(), { addSuffix: true }) : t('comments.justNow')}
+                                        </span>
+                                    </div>
+                                    {changedKeys.length > 0 && (
+                                        <ul className="text-sm text-muted-foreground space-y-1">
+                                            {changedKeys.map(key => (
+                                                <li key={key} className="break-all">
+                                                    <span className="font-mono">{key}</span>: {formatAuditValue(entry.before?.[key]) ?? '—'} → {formatAuditValue(entry.after?.[key]) ?? '—'}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+// #endregion
 
 export function AdminDashboard() {
   const { userProfile, loading: authLoading } = useAuth();
@@ -938,6 +2234,7 @@ export function AdminDashboard() {
   const [tabsKey, setTabsKey] = useState(0);
 
   const canViewDashboard = userProfile?.role === 'admin';
+  const canTestModeration = userProfile?.permissions?.manage_forbidden_words || userProfile?.permissions?.manage_protected_names || userProfile?.permissions?.manage_allowlist;
   
   const handlePermissionsUpdate = () => {
     // Force a re-render of the tabs component to show/hide tabs based on new permissions
@@ -970,6 +2267,11 @@ export function AdminDashboard() {
           {userProfile?.permissions?.manage_admins && <TabsTrigger value="admins">{t('admin.manageAdmins')}</TabsTrigger>}
           {userProfile?.permissions?.manage_forbidden_words && <TabsTrigger value="settings">{t('admin.wordFilter')}</TabsTrigger>}
           {userProfile?.permissions?.manage_protected_names && <TabsTrigger value="names">{t('admin.protectedNames')}</TabsTrigger>}
+          {userProfile?.permissions?.manage_reports && <TabsTrigger value="reports">{t('admin.reports')}</TabsTrigger>}
+          {userProfile?.permissions?.review_appeals && <TabsTrigger value="appeals">{t('admin.appeals')}</TabsTrigger>}
+          {userProfile?.permissions?.manage_allowlist && <TabsTrigger value="allowlist">{t('admin.allowlist')}</TabsTrigger>}
+          {canTestModeration && <TabsTrigger value="test">{t('admin.moderationTest')}</TabsTrigger>}
+          {userProfile?.permissions?.view_audit_log && <TabsTrigger value="audit">{t('admin.auditLog')}</TabsTrigger>}
         </TabsList>
       </div>
       <TabsContent value="posts" className="mt-4">
@@ -1000,6 +2302,31 @@ export function AdminDashboard() {
           <ProtectedNamesManager />
         </TabsContent>
        )}
+       {userProfile?.permissions?.manage_reports && (
+        <TabsContent value="reports" className="mt-4">
+          <ReportsManager />
+        </TabsContent>
+       )}
+       {userProfile?.permissions?.review_appeals && (
+        <TabsContent value="appeals" className="mt-4">
+          <AppealsManager />
+        </TabsContent>
+       )}
+       {userProfile?.permissions?.manage_allowlist && (
+        <TabsContent value="allowlist" className="mt-4">
+          <AllowlistManager />
+        </TabsContent>
+       )}
+       {canTestModeration && (
+        <TabsContent value="test" className="mt-4">
+          <ModerationTester />
+        </TabsContent>
+       )}
+       {userProfile?.permissions?.view_audit_log && (
+        <TabsContent value="audit" className="mt-4">
+          <AuditLogManager />
+        </TabsContent>
+       )}
     </Tabs>
   );
 }
@@ -19,7 +19,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { LayoutDashboard, LogOut, User as UserIcon, Link2, Info, FileText, Copyright, History } from 'lucide-react';
+import { LayoutDashboard, LogOut, User as UserIcon, Link2, Info, FileText, Copyright, History, FileClock } from 'lucide-react';
 import { useLocale } from '@/hooks/useLocale';
 
 export function UserMenu() {
@@ -85,6 +85,12 @@ export function UserMenu() {
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/my-posts">
+            <FileClock className="mr-2 h-4 w-4" />
+            <span>{t('userMenu.myPosts')}</span>
+          </Link>
+        </DropdownMenuItem>
         {userProfile.role === 'admin' && (
           <DropdownMenuItem asChild>
             <Link href="/admin">
@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useTransition } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { collection, query, where, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { authorizedFetch } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+import type { Comment as CommentType } from '@/lib/types';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { User, Send, Loader2, Trash2, Flag, Reply, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { ScrollArea } from '../ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useLocale } from '@/hooks/useLocale';
+import { useRestriction } from '@/hooks/useRestriction';
+import { ReportDialog } from './ReportDialog';
+
+
+interface CommentThreadProps {
+  postId: string;
+  // Rendered above the comments with the number shown, e.g. the sheet's title.
+  renderHeader: (count: number) => React.ReactNode;
+  // In the sheet the list scrolls between the header and the composer; inline it grows with the page.
+  scrollable?: boolean;
+  className?: string;
+}
+
+export function CommentThread({ postId, renderHeader, scrollable = false, className }: CommentThreadProps) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const { t, locale } = useLocale();
+  const { checkBlocked } = useRestriction();
+  const [comments, setComments] = useState<CommentType[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [isPending, startTransition] = useTransition();
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [reportingCommentId, setReportingCommentId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<CommentType | null>(null);
+  // Comments whose replies are hidden.
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  // Set when the server says the user is commenting too fast; cleared once they may try again.
+  const [slowDownUntil, setSlowDownUntil] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!slowDownUntil) return;
+    const timeout = setTimeout(() => setSlowDownUntil(null), Math.max(0, slowDownUntil.getTime() - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [slowDownUntil]);
+
+  useEffect(() => {
+    if (!postId) return;
+    // The query was causing a crash because it required a composite index in Firestore.
+    // Removed orderBy and will sort on the client instead to resolve the issue.
+    // The ideal long-term solution is to create the index recommended in the browser console logs.
+    // The rules only let readers list public comments, and a shadowbanned user their own shadow
+    // comments, so those are two queries merged here.
+    const queries = [query(collection(db, 'comments'), where('postId', '==', postId), where('visibility', '==', 'public'))];
+    if (user) {
+      queries.push(query(
+        collection(db, 'comments'),
+        where('postId', '==', postId),
+        where('userId', '==', user.uid),
+        where('visibility', '==', 'shadow')
+      ));
+    }
+    const results: CommentType[][] = queries.map(() => []);
+
+    const unsubscribes = queries.map((q, index) => onSnapshot(q, (querySnapshot) => {
+      results[index] = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as CommentType));
+      const commentsData = results.flat();
+
+      // Sort comments on the client by creation date, newest first.
+      commentsData.sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+
+      setComments(commentsData);
+    }, (error) => {
+        console.error("Error fetching comments:", error);
+        toast({
+            title: t('toasts.error'),
+            description: 'There was an issue fetching the comments for this post. This may be due to a missing database index. Check the console for details.',
+            variant: 'destructive',
+            duration: 9000
+        })
+    }));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [postId, user, toast, t]);
+
+  // Replies grouped under their parent, and how many replies each thread holds in total.
+  const thread = useMemo(() => {
+    const shownIds = new Set(comments.map(comment => comment.id));
+    const topLevel: CommentType[] = [];
+    const repliesByParent = new Map<string, CommentType[]>();
+    for (const comment of comments) {
+      // A reply to a comment the reader can't see (a shadowbanned user's) stands on its own.
+      if (comment.parentId && shownIds.has(comment.parentId)) {
+        repliesByParent.set(comment.parentId, [...(repliesByParent.get(comment.parentId) || []), comment]);
+      } else {
+        topLevel.push(comment);
+      }
+    }
+    // Replies read as a conversation, oldest first, under newest-first comments.
+    repliesByParent.forEach(replies => replies.reverse());
+
+    const replyCounts = new Map<string, number>();
+    const countReplies = (id: string): number => {
+      const total = (repliesByParent.get(id) || []).reduce((sum, reply) => sum + 1 + countReplies(reply.id), 0);
+      replyCounts.set(id, total);
+      return total;
+    };
+    topLevel.forEach(comment => countReplies(comment.id));
+
+    return { topLevel, repliesByParent, replyCounts };
+  }, [comments]);
+
+  // Drop the reply target if it was deleted while the user was typing.
+  useEffect(() => {
+    if (replyingTo && !comments.some(comment => comment.id === replyingTo.id)) {
+      setReplyingTo(null);
+    }
+  }, [comments, replyingTo]);
+
+  const toggleCollapsed = (commentId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(commentId)) next.add(commentId);
+      return next;
+    });
+  };
+
+  const handleReply = (comment: CommentType) => {
+    setReplyingTo(comment);
+    composerRef.current?.focus();
+  };
+
+  const handleAddComment = () => {
+    if (newComment.trim() === '' || !user) {
+        if (!user) toast({ title: t('comments.signInToComment'), variant: 'destructive' });
+        return;
+    }
+    if (checkBlocked()) return;
+    
+    startTransition(async () => {
+        try {
+            // The server filters the comment and bumps the post's comment count.
+            const res = await authorizedFetch(user, '/api/comments', {
+                method: 'POST',
+                body: JSON.stringify({ postId, content: newComment, parentId: replyingTo?.id }),
+            });
+            const result = await res.json();
+            if (res.status === 429) {
+                setSlowDownUntil(new Date(result.retryAt));
+                return;
+            }
+            if (!res.ok) {
+                throw new Error(result.error || 'Could not post comment.');
+            }
+            setNewComment('');
+            if (replyingTo) {
+                // Show the new reply even if its thread was collapsed.
+                const { id: parentId, parentId: grandparentId } = replyingTo;
+                setCollapsed(prev => {
+                    const next = new Set(prev);
+                    next.delete(parentId);
+                    if (grandparentId) next.delete(grandparentId);
+                    return next;
+                });
+                setReplyingTo(null);
+            }
+        } catch (e: any) {
+            console.error(e);
+            toast({ title: t('toasts.error'), description: e.message, variant: 'destructive' });
+        }
+    });
+  };
+
+  const handleDeleteComment = (comment: CommentType) => {
+    if (!(userProfile?.permissions?.delete_comments || comment.userId === user?.uid)) {
+        toast({ title: t('toasts.permissionDenied'), description: 'You do not have permission to delete this comment.', variant: 'destructive' });
+        return;
+    }
+    
+    if (!user) return;
+    
+    setIsDeleting(comment.id);
+
+    // The server removes the comment and its replies, and decrements the post's comment count together.
+    authorizedFetch(user, `/api/comments/${comment.id}`, { method: 'DELETE' })
+        .then(async (res) => {
+            if (!res.ok) {
+                const result = await res.json();
+                throw new Error(result.error || 'Could not delete comment.');
+            }
+            toast({ title: t('comments.commentDeleted'), description: t('comments.commentDeletedDescription') });
+        })
+        .catch((e: any) => {
+            console.error("Error deleting comment:", e);
+            toast({ title: t('toasts.error'), description: e.message, variant: 'destructive' });
+        })
+        .finally(() => {
+            setIsDeleting(null);
+        });
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (newComment.trim() !== '') {
+        handleAddComment();
+      }
+    }
+  };
+
+  const renderComment = (comment: CommentType): React.ReactNode => {
+    const replies = thread.repliesByParent.get(comment.id) || [];
+    const replyCount = thread.replyCounts.get(comment.id) || 0;
+    const isCollapsed = collapsed.has(comment.id);
+
+    return (
+      <div key={comment.id}>
+        <div className="flex gap-3 group">
+            <Avatar className="h-8 w-8">
+               <AvatarFallback><User className="h-4 w-4" /></AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+                <div className="flex items-center gap-2">
+                    <p className="font-semibold text-sm">{comment.authorDisplayName || t('userMenu.anonymousUser')}</p>
+                    <p className="text-xs text-muted-foreground">
+                        {comment.createdAt ? formatDistanceToNow(comment.createdAt.toDate(), { addSuffix: true }) : t('comments.justNow')}
+                    </p>
+                </div>
+                <p className="text-sm text-secondary-foreground">
+                    {comment.replyToName && <span className="font-medium text-primary mr-1">@{comment.replyToName}</span>}
+                    {comment.content}
+                </p>
+                <div className="flex items-center gap-1 -ml-2">
+                    {user && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground" onClick={() => handleReply(comment)}>
+                            <Reply className="mr-1 h-3 w-3" />
+                            {t('comments.reply')}
+                        </Button>
+                    )}
+                    {replyCount > 0 && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground" onClick={() => toggleCollapsed(comment.id)}>
+                            {isCollapsed ? <ChevronRight className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+                            {t(isCollapsed ? 'comments.showReplies' : 'comments.hideReplies', { count: replyCount.toString() })}
+                        </Button>
+                    )}
+                </div>
+            </div>
+            {user && comment.userId !== user.uid && (
+                <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100" onClick={() => setReportingCommentId(comment.id)}>
+                    <Flag className="h-4 w-4 text-muted-foreground" />
+                    <span className="sr-only">{t('reports.report')}</span>
+                </Button>
+            )}
+            {(userProfile?.permissions?.delete_comments || comment.userId === user?.uid) && (
+                <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100" disabled={isDeleting === comment.id}>
+                            {isDeleting === comment.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-destructive" />}
+                        </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>{t('comments.deleteCommentConfirmationTitle')}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                {replyCount > 0
+                                    ? t('comments.deleteThreadConfirmationDescription', { count: replyCount.toString() })
+                                    : t('comments.deleteCommentConfirmationDescription')}
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>{t('buttons.cancel')}</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDeleteComment(comment)}>{t('buttons.delete')}</AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            )}
+        </div>
+        {replies.length > 0 && !isCollapsed && (
+          <div className="mt-4 ml-4 space-y-4 border-l pl-4">
+            {replies.map(renderComment)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const commentList = (
+    <div className="p-4 space-y-6">
+      {comments.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">{t('comments.noComments')}</p>
+      ) : (
+          thread.topLevel.map(renderComment)
+      )}
+    </div>
+  );
+
+  return (
+    <div className={cn('flex flex-col', className)}>
+      {renderHeader(comments.length)}
+      {scrollable ? <ScrollArea className="flex-1">{commentList}</ScrollArea> : commentList}
+      <div className="p-4 bg-background border-t">
+        {slowDownUntil && (
+          <p className="mb-2 text-sm text-destructive">
+            {t('rateLimit.commentsDescription', { time: formatDistanceToNow(slowDownUntil, { addSuffix: true }) })}
+          </p>
+        )}
+        {replyingTo && (
+          <div className="mb-2 flex items-center justify-between text-sm text-muted-foreground">
+            <span>{t('comments.replyingTo', { name: replyingTo.authorDisplayName || t('userMenu.anonymousUser') })}</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReplyingTo(null)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">{t('comments.cancelReply')}</span>
+            </Button>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Textarea
+            ref={composerRef}
+            placeholder={replyingTo ? t('comments.replyPlaceholder') : t('comments.addCommentPlaceholder')}
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="min-h-[40px] max-h-24"
+            rows={1}
+            disabled={!user}
+          />
+          <Button onClick={handleAddComment} disabled={isPending || newComment.trim() === '' || !user || !!slowDownUntil} size="icon">
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+      <ReportDialog
+        postId={postId}
+        commentId={reportingCommentId}
+        open={reportingCommentId !== null}
+        onOpenChange={(open) => { if (!open) setReportingCommentId(null); }}
+      />
+    </div>
+  );
+}
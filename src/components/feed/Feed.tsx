@@ -1,22 +1,154 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { collection, query, where, getDocs, orderBy, limit, startAfter, DocumentData, QueryDocumentSnapshot, onSnapshot } from 'firebase/firestore';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { collection, doc, getDoc, query, where, getDocs, orderBy, limit, startAfter, DocumentData, QueryDocumentSnapshot, QueryConstraint, onSnapshot, FirestoreError } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import type { Post } from '@/lib/types';
+import { CATEGORIES, type Category, type Post, type Vote } from '@/lib/types';
+import { FEED_SORTS, TOP_WINDOWS, windowDays, type FeedSort, type TopWindow } from '@/lib/ranking';
 import { PostCard } from './PersonCard';
 import { PersonCardSkeleton } from './PersonCardSkeleton';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '../ui/button';
-import { ArrowDown } from 'lucide-react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
 import Link from 'next/link';
 import { Header } from '../layout/Header';
 import { LoginButton } from '../auth/LoginButton';
 import { useLocale } from '@/hooks/useLocale';
+import { useMobileLayout } from '@/hooks/use-mobile';
 
 const BATCH_SIZE = 10;
+// Firestore `in` filters take at most 30 values.
+const VOTE_QUERY_SIZE = 30;
+// Mobile reels this far either side of the one on screen stay mounted. The rest are empty
+// placeholders of the same height, so snapping and scroll positions don't change.
+const REEL_OVERSCAN = 2;
 
-function WelcomeReel() {
+// What a feed had loaded and how far it was scrolled, so leaving it for a post or another
+// category and coming back picks up where the reader left off. Kept until the page reloads,
+// keyed by category.
+interface FeedSession {
+  sort: FeedSort;
+  topWindow: TopWindow;
+  posts: Post[];
+  pendingPosts: Post[];
+  lastVisible: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+  scrollY: number;
+  reelScrollTop: number;
+}
+
+const feedSessions = new Map<string, FeedSession>();
+
+// The signed-in user's vote on every post seen so far, shared by every feed. Real-time updates
+// re-deliver the same posts, so only posts missing from here are looked up.
+const voteCache: { uid: string | null; votes: Map<string, Post['userVote']> } = { uid: null, votes: new Map() };
+
+// The feed only shows approved, public posts; the sort mode decides the order.
+// Admins can use the dashboard to see pending/rejected posts.
+function feedConstraints(category: Category | undefined, sort: FeedSort, topWindow: TopWindow): QueryConstraint[] {
+  const constraints = [where('status', '==', 'approved'), where('visibility', '==', 'public')];
+  if (category) {
+    constraints.push(where('category', '==', category));
+  }
+  switch (sort) {
+    case 'hot':
+      return [...constraints, orderBy('hotScore', 'desc')];
+    case 'top': {
+      const days = windowDays(topWindow);
+      return days
+        ? [...constraints, where('createdDay', 'in', days), orderBy('score', 'desc')]
+        : [...constraints, orderBy('score', 'desc')];
+    }
+    case 'controversial':
+      return [...constraints, orderBy('controversy', 'desc')];
+    default:
+      return [...constraints, orderBy('createdAt', 'desc')];
+  }
+}
+
+// The value a sort mode orders by, for placing posts that didn't come from the feed query.
+function sortValue(post: Post, sort: FeedSort): number {
+  switch (sort) {
+    case 'hot':
+      return post.hotScore ?? 0;
+    case 'top':
+      return post.score ?? 0;
+    case 'controversial':
+      return post.controversy ?? 0;
+    default:
+      return post.createdAt?.toMillis() || 0;
+  }
+}
+
+interface FeedSortControlsProps {
+  sort: FeedSort;
+  topWindow: TopWindow;
+  onSortChange: (sort: FeedSort) => void;
+  onTopWindowChange: (topWindow: TopWindow) => void;
+}
+
+function FeedSortControls({ sort, topWindow, onSortChange, onTopWindowChange }: FeedSortControlsProps) {
+    const { t } = useLocale();
+    return (
+        <div className="flex flex-col items-center gap-2">
+            <div className="flex flex-wrap justify-center gap-2">
+                {FEED_SORTS.map(s => (
+                    <Button key={s} size="sm" variant={sort === s ? 'default' : 'outline'} onClick={() => onSortChange(s)}>
+                        {t(`feed.sort.${s}`)}
+                    </Button>
+                ))}
+            </div>
+            {sort === 'top' && (
+                <div className="flex justify-center gap-1">
+                    {(Object.keys(TOP_WINDOWS) as TopWindow[]).map(w => (
+                        <Button key={w} size="sm" variant={topWindow === w ? 'secondary' : 'ghost'} onClick={() => onTopWindowChange(w)}>
+                            {t(`feed.topWindow.${w}`)}
+                        </Button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function CategoryChips({ category }: { category?: Category }) {
+    const { t } = useLocale();
+    // scroll={false} leaves scrolling to the feed, which restores each category's own position.
+    return (
+        <div className="flex flex-wrap justify-center gap-2">
+            <Button asChild size="sm" variant={category ? 'outline' : 'default'} className="rounded-full">
+                <Link href="/" scroll={false}>{t('feed.allCategories')}</Link>
+            </Button>
+            {CATEGORIES.map(c => (
+                <Button key={c} asChild size="sm" variant={category === c ? 'default' : 'outline'} className="rounded-full">
+                    <Link href={`/c/${c}`} scroll={false}>{t(`categories.${c}`)}</Link>
+                </Button>
+            ))}
+        </div>
+    );
+}
+
+// Whether a post that dropped out of the live first page should leave the feed too: it was deleted
+// or pulled, rather than pushed down by other posts. The rules refuse readers other than the author
+// and admins a deleted or unpublished post, so a refusal means it's gone as well.
+async function isGone(postId: string): Promise<boolean> {
+  try {
+    const snapshot = await getDoc(doc(db, 'posts', postId));
+    const post = snapshot.data() as Post | undefined;
+    return !post || post.status !== 'approved' || post.visibility !== 'public';
+  } catch (error) {
+    if (error instanceof FirestoreError && error.code === 'permission-denied') return true;
+    console.error("Error checking removed post:", error);
+    return false;
+  }
+}
+
+// The post reel at a scroll offset. Every reel is one screen tall and the welcome reel comes first.
+function reelIndex(scrollTop: number, reelHeight: number): number {
+  return Math.max(0, Math.round(scrollTop / reelHeight) - 1);
+}
+
+function WelcomeReel({ controls }: { controls: React.ReactNode }) {
     const { user } = useAuth();
     const { t } = useLocale();
     return (
@@ -26,7 +158,8 @@ function WelcomeReel() {
             </div>
             <h1 className="text-4xl font-headline font-bold mb-4">{t('feed.welcomeTitle')}</h1>
             <p className="text-xl text-muted-foreground mb-8">{t('feed.welcomeSubtitle')}</p>
-            <ArrowDown className="h-12 w-12 animate-bounce text-primary" />
+            {controls}
+            <ArrowDown className="h-12 w-12 mt-8 animate-bounce text-primary" />
              {!user && (
                 <div className="absolute bottom-24">
                      <p className="mb-4">{t('feed.getStartedPrompt')}</p>
@@ -39,79 +172,168 @@ function WelcomeReel() {
     )
 }
 
-export function Feed() {
+export function Feed({ category }: { category?: Category }) {
   const { user, loading: authLoading } = useAuth();
   const { t } = useLocale();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
+  const sessionKey = category ?? 'all';
+  const [session] = useState(() => feedSessions.get(sessionKey));
+  const [posts, setPosts] = useState<Post[]>(() => (session?.posts ?? []).map(post => ({
+    ...post,
+    // Votes cast in another feed since this one was left.
+    userVote: voteCache.uid === user?.uid && voteCache.votes.has(post.id) ? voteCache.votes.get(post.id) ?? null : post.userVote,
+  })));
+  // Posts that reached the top of the feed after it loaded. They wait here until the reader asks
+  // for them, so the list doesn't move under them.
+  const [pendingPosts, setPendingPosts] = useState<Post[]>(session?.pendingPosts ?? []);
+  const [loading, setLoading] = useState(!session);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
-  const [lastVisible, setLastVisible] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = useState(session?.hasMore ?? true);
+  const [lastVisible, setLastVisible] = useState<QueryDocumentSnapshot<DocumentData> | null>(session?.lastVisible ?? null);
+  // The listener runs outside React's render cycle and needs the posts on screen right now.
+  const postsRef = useRef(posts);
+  postsRef.current = posts;
   const observer = useRef<IntersectionObserver>();
+  const [sort, setSort] = useState<FeedSort>(session?.sort ?? 'new');
+  const [topWindow, setTopWindow] = useState<TopWindow>(session?.topWindow ?? 'day');
+  const reelRef = useRef<HTMLDivElement>(null);
+  const scroll = useRef({ scrollY: session?.scrollY ?? 0, reelScrollTop: session?.reelScrollTop ?? 0 });
+  const [activeReel, setActiveReel] = useState(() => session ? reelIndex(session.reelScrollTop, window.innerHeight) : 0);
+  const isMobile = useMobileLayout();
 
   const processAndSetUserVotes = useCallback(async (postsToProcess: Post[]): Promise<Post[]> => {
     if (!user) return postsToProcess;
 
-    const votePromises = postsToProcess.map(async (post) => {
-      if (post.userVote !== undefined) return post; // Already processed
-      const voteRef = collection(db, 'votes');
-      const voteQuery = query(voteRef, where('postId', '==', post.id), where('userId', '==', user.uid));
-      const voteSnapshot = await getDocs(voteQuery);
-      if (!voteSnapshot.empty) {
-        return { ...post, userVote: voteSnapshot.docs[0].data().type };
-      }
-      return { ...post, userVote: null }; // Explicitly set to null if no vote
-    });
-    return Promise.all(votePromises);
+    if (voteCache.uid !== user.uid) {
+      voteCache.uid = user.uid;
+      voteCache.votes.clear();
+    }
+
+    // One query per VOTE_QUERY_SIZE posts instead of one per post.
+    const missingIds = postsToProcess.map(post => post.id).filter(id => !voteCache.votes.has(id));
+    const chunks: string[][] = [];
+    for (let i = 0; i < missingIds.length; i += VOTE_QUERY_SIZE) {
+      chunks.push(missingIds.slice(i, i + VOTE_QUERY_SIZE));
+    }
+    const voteSnapshots = await Promise.all(chunks.map(chunk => getDocs(query(
+      collection(db, 'votes'),
+      where('userId', '==', user.uid),
+      where('postId', 'in', chunk)
+    ))));
+
+    missingIds.forEach(id => voteCache.votes.set(id, null));
+    voteSnapshots.forEach(snapshot => snapshot.docs.forEach(doc => {
+      const vote = doc.data() as Vote;
+      voteCache.votes.set(vote.postId, vote.type);
+    }));
+
+    return postsToProcess.map(post => ({ ...post, userVote: voteCache.votes.get(post.id) ?? null }));
   }, [user]);
 
-  // Real-time listener for the initial posts
+  // Keeps the cache in step with votes cast from a card, so the next snapshot doesn't undo them.
+  const handleVoted = useCallback((postId: string, vote: Post['userVote']) => {
+    voteCache.votes.set(postId, vote);
+  }, []);
+
+  // Real-time listener for the first page. It fills an empty feed; after that it only refreshes
+  // the cards already shown and buffers posts the reader hasn't seen.
   useEffect(() => {
     if (authLoading) {
       setLoading(true);
       return;
     }
-    
-    setLoading(true);
-    const postsRef = collection(db, 'posts');
-    
-    // The main feed should only show approved posts for all users.
-    // Admins can use the dashboard to see pending/rejected posts.
-    const q = query(
-      postsRef,
-      where('status', '==', 'approved'),
-      orderBy('createdAt', 'desc'),
-      limit(BATCH_SIZE)
-    );
+
+    const q = query(collection(db, 'posts'), ...feedConstraints(category, sort, topWindow), limit(BATCH_SIZE));
+    // Set once the sort changes, so a snapshot still resolving its votes can't fill the new feed.
+    let stale = false;
 
     const unsubscribe = onSnapshot(q, async (snapshot) => {
       const newPosts = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Post));
-      const processedPosts = await processAndSetUserVotes(newPosts);
+      // Without the reader's votes the cards just show no vote highlighted.
+      const processedPosts = await processAndSetUserVotes(newPosts).catch(error => {
+        console.error("Error fetching votes:", error);
+        return newPosts;
+      });
+      if (stale) return;
 
-      setPosts(processedPosts);
-      setHasMore(snapshot.docs.length === BATCH_SIZE);
-      const newLastVisible = snapshot.docs[snapshot.docs.length - 1];
-      setLastVisible(newLastVisible || null);
+      const shown = postsRef.current;
+      if (shown.length === 0) {
+        setPosts(processedPosts);
+        setHasMore(snapshot.docs.length === BATCH_SIZE);
+        setLastVisible(snapshot.docs[snapshot.docs.length - 1] || null);
+        setLoading(false);
+        return;
+      }
+
+      const shownIds = new Set(shown.map(post => post.id));
+      const updates = new Map(processedPosts.filter(post => shownIds.has(post.id)).map(post => [post.id, post]));
+      // Only posts written after the newest one shown are new. In the ranked sorts an older post
+      // can climb into the first page too; that's a reordering, not something to announce.
+      const newestShown = Math.max(...shown.map(post => post.createdAt?.toMillis() ?? 0));
+      const unseen = processedPosts.filter(post => !shownIds.has(post.id) && (post.createdAt?.toMillis() ?? 0) > newestShown);
+      const unseenIds = new Set(unseen.map(post => post.id));
+
+      // Vote and comment counts change in place. The pagination cursor is left alone: it marks the
+      // end of what's loaded, which new posts at the top don't move.
+      setPosts(prev => prev.map(post => updates.get(post.id) ?? post));
+      setPendingPosts(prev => [...unseen, ...prev.filter(post => !unseenIds.has(post.id))]);
       setLoading(false);
+
+      const removedIds = snapshot.docChanges()
+        .filter(change => change.type === 'removed')
+        .map(change => change.doc.id);
+      // In the ranked sorts a buffered post that left the first page was outranked, so it no longer
+      // belongs at the top. In "new" it may only have been pushed down by newer posts.
+      if (sort !== 'new') {
+        const removed = new Set(removedIds);
+        setPendingPosts(prev => prev.filter(post => !removed.has(post.id)));
+      }
+      if (removedIds.length > 0) {
+        try {
+          const gone = await Promise.all(removedIds.map(isGone));
+          if (stale) return;
+          const goneIds = new Set(removedIds.filter((_, i) => gone[i]));
+          setPosts(prev => prev.filter(post => !goneIds.has(post.id)));
+          setPendingPosts(prev => prev.filter(post => !goneIds.has(post.id)));
+        } catch (error) {
+          console.error("Error removing deleted posts:", error);
+        }
+      }
     }, (error) => {
       console.error("Error fetching real-time posts:", error);
       setLoading(false);
     });
 
-    return () => unsubscribe();
-  }, [authLoading, processAndSetUserVotes]);
+    return () => {
+      stale = true;
+      unsubscribe();
+    };
+  }, [authLoading, processAndSetUserVotes, category, sort, topWindow]);
+
+  // New posts are slotted in where the current sort puts them, which in "new" is the top. The
+  // cards already shown keep their order.
+  const showPendingPosts = () => {
+    const pendingIds = new Set(pendingPosts.map(post => post.id));
+    setPosts(prev => {
+      const merged = prev.filter(post => !pendingIds.has(post.id));
+      const incoming = [...pendingPosts].sort((a, b) => sortValue(b, sort) - sortValue(a, sort));
+      for (const post of incoming) {
+        const index = merged.findIndex(shownPost => sortValue(shownPost, sort) < sortValue(post, sort));
+        merged.splice(index === -1 ? merged.length : index, 0, post);
+      }
+      return merged;
+    });
+    setPendingPosts([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    reelRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
   
   const fetchMorePosts = useCallback(async () => {
     if (!hasMore || loadingMore || !lastVisible) return;
     setLoadingMore(true);
 
-    const postsRef = collection(db, 'posts');
-    
-    // The main feed should only show approved posts for all users.
     const q = query(
-        postsRef,
-        where('status', '==', 'approved'),
-        orderBy('createdAt', 'desc'),
+        collection(db, 'posts'),
+        ...feedConstraints(category, sort, topWindow),
         startAfter(lastVisible),
         limit(BATCH_SIZE)
     );
@@ -124,15 +346,99 @@ export function Feed() {
       setHasMore(documentSnapshots.docs.length === BATCH_SIZE);
       const newLastVisible = documentSnapshots.docs[documentSnapshots.docs.length - 1];
       setLastVisible(newLastVisible || null);
-      
-      setPosts(prevPosts => [...prevPosts, ...processedPosts]);
+
+      // Posts that moved down a sort order since the first page loaded may come round again.
+      setPosts(prevPosts => {
+        const loadedIds = new Set(prevPosts.map(post => post.id));
+        return [...prevPosts, ...processedPosts.filter(post => !loadedIds.has(post.id))];
+      });
     } catch (error) {
       console.error("Error fetching more posts:", error);
     } finally {
       setLoadingMore(false);
     }
-  }, [hasMore, loadingMore, lastVisible, processAndSetUserVotes]);
+  }, [hasMore, loadingMore, lastVisible, processAndSetUserVotes, category, sort, topWindow]);
+
+  // A new sort mode starts over from its first page.
+  const resetPages = () => {
+    setPosts([]);
+    setPendingPosts([]);
+    setLastVisible(null);
+    setHasMore(true);
+    setLoading(true);
+  };
+
+  const handleSortChange = (nextSort: FeedSort) => {
+    if (nextSort === sort) return;
+    resetPages();
+    setSort(nextSort);
+  };
+
+  const handleTopWindowChange = (nextWindow: TopWindow) => {
+    if (nextWindow === topWindow) return;
+    resetPages();
+    setTopWindow(nextWindow);
+  };
+
+  // Put the reader back where they were in this category.
+  useEffect(() => {
+    if (!session) return;
+    window.scrollTo({ top: session.scrollY, behavior: 'instant' });
+    reelRef.current?.scrollTo({ top: session.reelScrollTop, behavior: 'instant' });
+  }, [session]);
+
+  useEffect(() => {
+    const handleScroll = () => { scroll.current.scrollY = window.scrollY; };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // Saved when the feed unmounts, i.e. when the reader opens a post or another category.
+  const latest = useRef({ sort, topWindow, posts, pendingPosts, lastVisible, hasMore });
+  latest.current = { sort, topWindow, posts, pendingPosts, lastVisible, hasMore };
+  useEffect(() => () => {
+    if (latest.current.posts.length === 0) return;
+    feedSessions.set(sessionKey, { ...latest.current, ...scroll.current });
+  }, [sessionKey]);
+
+  // A shadowbanned user still sees their own posts in the feed, so the ban isn't obvious to them.
+  const [ownShadowPosts, setOwnShadowPosts] = useState<Post[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setOwnShadowPosts([]);
+      return;
+    }
+    const q = query(
+      collection(db, 'posts'),
+      where('authorUid', '==', user.uid),
+      where('visibility', '==', 'shadow'),
+      where('status', '==', 'approved'),
+      ...(category ? [where('category', '==', category)] : [])
+    );
+    getDocs(q)
+      .then(snapshot => processAndSetUserVotes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Post))))
+      .then(setOwnShadowPosts)
+      .catch(error => console.error("Error fetching shadow posts:", error));
+  }, [user, category, processAndSetUserVotes]);
+
+  // Slot the shadow posts in among the loaded public posts, in the current sort order.
+  const feedPosts = useMemo(() => {
+    if (ownShadowPosts.length === 0) return posts;
+    const days = sort === 'top' ? windowDays(topWindow) : null;
+    const lastLoaded = posts.length > 0 ? sortValue(posts[posts.length - 1], sort) : -Infinity;
+    const visibleShadowPosts = ownShadowPosts
+      .filter(p => !days || (p.createdDay !== undefined && days.includes(p.createdDay)))
+      .filter(p => !hasMore || sortValue(p, sort) >= lastLoaded);
+    return [...posts, ...visibleShadowPosts].sort((a, b) => sortValue(b, sort) - sortValue(a, sort));
+  }, [posts, ownShadowPosts, hasMore, sort, topWindow]);
 
+  const controls = (
+    <div className="flex flex-col items-center gap-4">
+      <CategoryChips category={category} />
+      <FeedSortControls sort={sort} topWindow={topWindow} onSortChange={handleSortChange} onTopWindowChange={handleTopWindowChange} />
+    </div>
+  );
 
   const lastElementRef = useCallback(node => {
     if (loading || loadingMore) return;
@@ -150,65 +456,88 @@ export function Feed() {
 
   return (
     <>
-        {/* Mobile: Reels-style full-screen scroll */}
-        <div className="md:hidden h-dvh w-screen overflow-y-auto snap-y snap-mandatory scroll-smooth">
-            <WelcomeReel />
-            {posts.map((post, index) => {
-                const isLastElement = posts.length === index + 1;
-                return (
-                    <div ref={isLastElement ? lastElementRef : null} key={post.id}>
-                        <PostCard post={post} />
-                    </div>
-                );
-            })}
-             {(loading || loadingMore) && (
-                [...Array(2)].map((_, i) => <PersonCardSkeleton key={`skeleton-mobile-${i}`} isFullScreen={true} />)
-            )}
-             {!loading && posts.length === 0 && (
-                 <div className="h-dvh w-screen snap-start flex flex-col items-center justify-center text-center bg-background text-foreground p-8">
-                     <h2 className="text-2xl font-bold font-headline">{t('feed.noPostsTitle')}</h2>
-                     <p className="text-muted-foreground mb-4">{t('feed.noPostsSubtitle')}</p>
-                      {user ? (
-                        <Button asChild>
-                            <Link href="/add-person">{t('feed.createFirstPost')}</Link>
-                        </Button>
-                     ) : (
-                        <LoginButton />
-                     )}
-                 </div>
-            )}
-             {!loading && !hasMore && posts.length > 0 && (
-                 <div className="h-dvh w-screen snap-start flex flex-col items-center justify-center text-center bg-background text-foreground p-8">
-                     <h2 className="text-2xl font-bold font-headline">{t('feed.endOfFeedTitle')}</h2>
-                     <p className="text-muted-foreground">{t('feed.endOfFeedSubtitle')}</p>
-                 </div>
-            )}
-        </div>
+        {pendingPosts.length > 0 && (
+            <Button onClick={showPendingPosts} size="sm" className="fixed top-4 md:top-20 left-1/2 -translate-x-1/2 z-40 rounded-full shadow-lg">
+                <ArrowUp className="mr-2 h-4 w-4" />
+                {t('feed.newPosts', { count: String(pendingPosts.length) })}
+            </Button>
+        )}
 
-        {/* Desktop: Masonry-style column layout */}
-        <div className="hidden md:block">
-            <div className="columns-1 md:columns-2 lg:columns-3 gap-8 space-y-8">
-                {posts.map((post, index) => {
-                  const isLastElement = posts.length === index + 1;
-                  return (
-                    <div ref={isLastElement ? lastElementRef : null} key={post.id} className="break-inside-avoid">
-                      <PostCard post={post} />
-                    </div>
-                  );
+        {/* Only one layout is mounted, so each post renders a single card. */}
+        {isMobile === true && (
+            // Mobile: Reels-style full-screen scroll
+            <div
+                ref={reelRef}
+                onScroll={(e) => {
+                    const reel = e.currentTarget;
+                    scroll.current.reelScrollTop = reel.scrollTop;
+                    setActiveReel(reelIndex(reel.scrollTop, reel.clientHeight));
+                }}
+                className="h-dvh w-screen overflow-y-auto snap-y snap-mandatory scroll-smooth"
+            >
+                <WelcomeReel controls={controls} />
+                {feedPosts.map((post, index) => {
+                    const isLastElement = feedPosts.length === index + 1;
+                    // The wrapper stays mounted either way, so the infinite-load trigger keeps working.
+                    const isNearby = Math.abs(index - activeReel) <= REEL_OVERSCAN;
+                    return (
+                        <div ref={isLastElement ? lastElementRef : null} key={post.id} className={isNearby ? undefined : "h-dvh w-screen snap-start"}>
+                            {isNearby && <PostCard post={post} layout="reel" onVoted={handleVoted} />}
+                        </div>
+                    );
                 })}
+                 {(loading || loadingMore) && (
+                    [...Array(2)].map((_, i) => <PersonCardSkeleton key={`skeleton-mobile-${i}`} isFullScreen={true} />)
+                )}
+                 {!loading && posts.length === 0 && (
+                     <div className="h-dvh w-screen snap-start flex flex-col items-center justify-center text-center bg-background text-foreground p-8">
+                         <h2 className="text-2xl font-bold font-headline">{t('feed.noPostsTitle')}</h2>
+                         <p className="text-muted-foreground mb-4">{t('feed.noPostsSubtitle')}</p>
+                          {user ? (
+                            <Button asChild>
+                                <Link href="/add-person">{t('feed.createFirstPost')}</Link>
+                            </Button>
+                         ) : (
+                            <LoginButton />
+                         )}
+                     </div>
+                )}
+                 {!loading && !hasMore && posts.length > 0 && (
+                     <div className="h-dvh w-screen snap-start flex flex-col items-center justify-center text-center bg-background text-foreground p-8">
+                         <h2 className="text-2xl font-bold font-headline">{t('feed.endOfFeedTitle')}</h2>
+                         <p className="text-muted-foreground">{t('feed.endOfFeedSubtitle')}</p>
+                     </div>
+                )}
             </div>
-            {(loading || loadingMore) && (
-                <div className="columns-1 md:columns-2 lg:columns-3 gap-8 space-y-8 mt-8">
-                {[...Array(3)].map((_, i) => <PersonCardSkeleton key={`skeleton-desktop-${i}`} />)}
+        )}
+
+        {isMobile === false && (
+            // Desktop: Masonry-style column layout
+            <div>
+                <div className="mb-8">{controls}</div>
+                <div className="columns-1 md:columns-2 lg:columns-3 gap-8 space-y-8">
+                    {feedPosts.map((post, index) => {
+                      const isLastElement = feedPosts.length === index + 1;
+                      return (
+                        <div ref={isLastElement ? lastElementRef : null} key={post.id} className="break-inside-avoid">
+                          <PostCard post={post} layout="card" onVoted={handleVoted} />
+                        </div>
+                      );
+                    })}
                 </div>
-            )}
-            {!loading && !hasMore && posts.length > 0 && (
-                <p className="text-center text-muted-foreground mt-8">{t('feed.endOfFeedTitle')}</p>
-            )}
-            {!loading && posts.length === 0 && (
-                <p className="text-center text-muted-foreground mt-8">{t('feed.noPostsTitle')}</p>
-            )}
-        </div>
+                {(loading || loadingMore) && (
+                    <div className="columns-1 md:columns-2 lg:columns-3 gap-8 space-y-8 mt-8">
+                    {[...Array(3)].map((_, i) => <PersonCardSkeleton key={`skeleton-desktop-${i}`} />)}
+                    </div>
+                )}
+                {!loading && !hasMore && posts.length > 0 && (
+                    <p className="text-center text-muted-foreground mt-8">{t('feed.endOfFeedTitle')}</p>
+                )}
+                {!loading && posts.length === 0 && (
+                    <p className="text-center text-muted-foreground mt-8">{t('feed.noPostsTitle')}</p>
+                )}
+            </div>
+        )}
     </>
   );
 }
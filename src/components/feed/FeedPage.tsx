@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { WelcomeScreen } from '@/components/auth/WelcomeScreen';
+import { Feed } from './Feed';
+import { Plus, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import type { Category } from '@/lib/types';
+
+interface FeedPageProps {
+  // Limits the feed to one category, for the /c/[category] routes.
+  category?: Category;
+}
+
+export function FeedPage({ category }: FeedPageProps) {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { t } = useLocale();
+  const [showWelcome, setShowWelcome] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (authLoading) {
+      setShowWelcome(null); // Show loading state
+    } else {
+      setShowWelcome(!user); // If user exists (anon or google), hide welcome. Otherwise show it.
+    }
+  }, [user, authLoading]);
+  
+  const handleLoginComplete = () => {
+    setShowWelcome(false);
+  };
+
+  if (showWelcome === null) {
+    // Loading state to prevent flash of content before auth is checked
+    return (
+        <div className="flex items-center justify-center h-dvh w-full bg-background">
+            <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        </div>
+    );
+  }
+
+  if (showWelcome) {
+    return <WelcomeScreen onComplete={handleLoginComplete} />;
+  }
+
+  // Original HomePage content
+  return (
+    <>
+      {/* Header is visible only on medium screens and up */}
+      <div className="hidden md:block">
+        <Header />
+      </div>
+      
+      {/* The main content area */}
+      <main className="md:container md:py-8 h-dvh md:h-auto bg-black md:bg-transparent">
+        <Feed key={category ?? 'all'} category={category} />
+      </main>
+
+      {/* Floating Action Button for mobile */}
+      <button
+        onClick={() => router.push('/add-person')}
+        className="fixed bottom-6 right-6 z-50 rounded-full h-16 w-16 p-0 
+                   flex items-center justify-center
+                   bg-primary text-primary-foreground
+                   shadow-lg
+                   block md:hidden transition-transform hover:scale-110 active:scale-100"
+      >
+        <Plus className="h-8 w-8" />
+        <span className="sr-only">{t('header.createPost')}</span>
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { collection, doc, getDocs, onSnapshot, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { Post, Vote } from '@/lib/types';
+import { toPublicPost, type PublicPost } from '@/lib/posts';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import { usePostActions } from '@/hooks/usePostActions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Share2 } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { format } from 'date-fns';
+import { CommentThread } from './CommentThread';
+import { ReportDialog } from './ReportDialog';
+import { ShareMenu } from './ShareMenu';
+import { PostActionsMenu, PostCustomFields, VoteButtons } from './PostParts';
+
+interface PostDetailProps {
+  id: string;
+  // Rendered on the server for approved, public posts. Anything else is loaded here with the
+  // reader's own permissions, so authors and admins can still open pending or rejected posts.
+  initialPost: PublicPost | null;
+}
+
+export function PostDetail({ id, initialPost }: PostDetailProps) {
+  const { user, loading: authLoading } = useAuth();
+  const { t } = useLocale();
+  const router = useRouter();
+  const [post, setPost] = useState<PublicPost | null>(initialPost);
+  // Only known once the live post has loaded; until then nobody gets the author menu.
+  const [authorUid, setAuthorUid] = useState<string | null>(null);
+  const [userVote, setUserVote] = useState<Post['userVote']>(null);
+  const [loading, setLoading] = useState(!initialPost);
+
+  const actions = usePostActions({ id, authorUid }, {
+    onVoted: (result) => {
+      setPost(prev => prev && { ...prev, upvotes: result.upvotes, downvotes: result.downvotes });
+      setUserVote(result.userVote);
+    },
+    onDeleted: () => router.push('/'),
+  });
+
+  // The server copy paints first; the live post keeps votes, comment counts and edits current.
+  useEffect(() => {
+    if (authLoading) return;
+    const unsubscribe = onSnapshot(doc(db, 'posts', id), (postSnap) => {
+      if (postSnap.exists()) {
+        const data = postSnap.data() as Post;
+        setPost(toPublicPost(postSnap.id, data));
+        setAuthorUid(data.authorUid);
+      } else {
+        setPost(null);
+      }
+      setLoading(false);
+    }, (error) => {
+      // The rules hide other people's unpublished posts.
+      console.error("Error fetching post:", error);
+      if (!initialPost) setPost(null);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [id, initialPost, authLoading]);
+
+  useEffect(() => {
+    if (!user) {
+      setUserVote(null);
+      return;
+    }
+    const votesQuery = query(collection(db, 'votes'), where('userId', '==', user.uid), where('postId', '==', id));
+    getDocs(votesQuery)
+      .then(snapshot => setUserVote(snapshot.empty ? null : (snapshot.docs[0].data() as Vote).type))
+      .catch(error => console.error("Error fetching vote:", error));
+  }, [id, user]);
+
+  if (loading) {
+    return (
+        <div className="container py-8 max-w-4xl mx-auto">
+            <Skeleton className="h-8 w-32 mb-8" />
+            <Card>
+                <CardHeader>
+                    <Skeleton className="h-8 w-3/4 mb-2" />
+                    <Skeleton className="h-4 w-1/4" />
+                </CardHeader>
+                <CardContent>
+                    <Skeleton className="h-4 w-full mb-2" />
+                    <Skeleton className="h-4 w-full mb-2" />
+                    <Skeleton className="h-4 w-5/6 mb-4" />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 mt-6">
+                        {[...Array(3)].map((_, i) => <Skeleton key={i} className="aspect-square w-full" />)}
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+  }
+
+  if (!post) {
+    return (
+         <div className="container py-8 text-center">
+            <h1 className="text-2xl font-bold mb-4">{t('post.postNotFoundTitle')}</h1>
+            <Button asChild>
+                <Link href="/">
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    {t('post.backToFeed')}
+                </Link>
+            </Button>
+        </div>
+    )
+  }
+
+
+  return (
+    <main className="container py-8 max-w-4xl mx-auto space-y-6">
+       <Button asChild variant="ghost">
+            <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                {t('post.backToFeed')}
+            </Link>
+        </Button>
+
+        <Card className="relative">
+            {user && authorUid && (
+                <div className="absolute top-4 right-4">
+                    <PostActionsMenu postId={post.id} actions={actions} />
+                </div>
+            )}
+            <CardHeader>
+                {post.category && (
+                    <Link href={`/c/${post.category}`} className="mb-2 self-start">
+                        <Badge variant="secondary" className="capitalize">{t(`categories.${post.category}`)}</Badge>
+                    </Link>
+                )}
+                <CardTitle className="text-3xl font-headline">{post.title}</CardTitle>
+                <CardDescription>
+                    {post.createdAt && t('post.postedOn', { date: format(new Date(post.createdAt), 'PPP') })}
+                    {post.eventDate && ` • ${t('post.eventOn', { date: format(new Date(post.eventDate), 'PPP') })}`}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                <p className="text-secondary-foreground leading-relaxed mb-6">{post.content}</p>
+
+                <PostCustomFields fields={post.customFields} variant="card" />
+
+                 {post.imageUrls.length > 0 ? (
+                    <div className="mt-6">
+                        <h3 className="text-xl font-semibold mb-4 border-t pt-4">{t('post.gallery')}</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                            {post.imageUrls.map((url, index) => (
+                                <div key={index} className="relative aspect-square group">
+                                    <Image
+                                        src={url}
+                                        alt={`${post.title} image ${index + 1}`}
+                                        fill
+                                        className="rounded-md object-cover"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-muted-foreground text-center py-4 mt-6 border-t">{t('post.noApprovedImages')}</p>
+                )}
+            </CardContent>
+            <CardFooter className="justify-end gap-2 text-sm text-muted-foreground">
+                <ShareMenu post={post}>
+                    <Button variant="ghost" size="sm">
+                        <Share2 className="h-4 w-4" />
+                        <span className="sr-only">{t('share.share')}</span>
+                    </Button>
+                </ShareMenu>
+                <VoteButtons post={{ upvotes: post.upvotes, downvotes: post.downvotes, userVote }} actions={actions} variant="card" />
+            </CardFooter>
+        </Card>
+
+        <Card id="comments">
+            <CommentThread
+                postId={post.id}
+                renderHeader={(count) => (
+                    <CardHeader className="border-b">
+                        <CardTitle className="text-xl">{t('comments.title', { count: count.toString() })}</CardTitle>
+                    </CardHeader>
+                )}
+            />
+        </Card>
+
+        <ReportDialog postId={post.id} open={actions.isReportOpen} onOpenChange={actions.setIsReportOpen} />
+    </main>
+  );
+}
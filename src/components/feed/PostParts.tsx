@@ -0,0 +1,175 @@
+'use client';
+
+import NextLink from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowUp, ArrowDown, MoreVertical, Edit, Trash2, Loader2, Flag } from 'lucide-react';
+import type { Post } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { getSocialPlatformIcon, getSocialLink, isSocialPlatform, getSocialUsername } from '@/lib/socials';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import type { usePostActions } from '@/hooks/usePostActions';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { categoryIcons } from './category-icons';
+
+// The pieces of a post shared by the feed cards and the post page. 'overlay' is the mobile reel,
+// drawn in white over the post's images; 'card' is everywhere else.
+type PartVariant = 'overlay' | 'card';
+
+type CustomFieldValue = NonNullable<Post['customFields']>[number];
+
+type PostActions = ReturnType<typeof usePostActions>;
+
+export function CategoryIcon({ category }: { category: Post['category'] }) {
+    const Icon = categoryIcons[category];
+    return <Icon className="h-full w-full" />;
+}
+
+function SocialLink({ field, variant }: { field: CustomFieldValue, variant: PartVariant }) {
+    const Icon = getSocialPlatformIcon(field.label);
+    const href = getSocialLink(field.label, field.value);
+    const username = getSocialUsername(field.label, field.value);
+
+    if (variant === 'card') {
+        return (
+            <Button asChild variant="outline" size="sm" className="gap-2">
+                <NextLink href={href} target="_blank" rel="noopener noreferrer">
+                    <Icon className="h-4 w-4" />
+                    <span>{username}</span>
+                </NextLink>
+            </Button>
+        )
+    }
+
+    return (
+        <Button asChild variant="ghost" size="sm" className="flex items-center gap-2 text-white hover:text-white hover:bg-white/10 rounded-full h-8 px-3">
+            <NextLink href={href} target="_blank" rel="noopener noreferrer">
+                <Icon className="h-4 w-4" />
+                <span className="text-xs">{username}</span>
+            </NextLink>
+        </Button>
+    )
+}
+
+function CustomField({ field, variant }: { field: CustomFieldValue, variant: PartVariant }) {
+    return (
+        <div className="flex text-sm">
+            <span className={cn('font-semibold mr-2', variant === 'overlay' ? 'text-neutral-300' : 'text-muted-foreground')}>{field.label}:</span>
+            <span className={cn('break-all', variant === 'overlay' ? 'text-neutral-100' : 'text-secondary-foreground')}>{field.value}</span>
+        </div>
+    )
+}
+
+// Social profiles as links first, then the remaining details as label/value rows.
+export function PostCustomFields({ fields, variant }: { fields: Post['customFields'], variant: PartVariant }) {
+    if (!fields || fields.length === 0) return null;
+
+    return (
+        <div className={cn('mt-4 pt-4 border-t', variant === 'overlay' && 'border-white/20')}>
+            <div className="flex flex-wrap gap-2 mb-2">
+                {fields.filter(f => isSocialPlatform(f.label)).map((field, index) => <SocialLink key={index} field={field} variant={variant} />)}
+            </div>
+            <div className="space-y-2">
+                {fields.filter(f => !isSocialPlatform(f.label)).map((field, index) => <CustomField key={index} field={field} variant={variant} />)}
+            </div>
+        </div>
+    )
+}
+
+interface VoteButtonsProps {
+    post: Pick<Post, 'upvotes' | 'downvotes' | 'userVote'>;
+    actions: Pick<PostActions, 'isVoting' | 'handleVote'>;
+    variant: PartVariant;
+}
+
+export function VoteButtons({ post, actions, variant }: VoteButtonsProps) {
+    const { user } = useAuth();
+    const iconSize = variant === 'overlay' ? 'h-5 w-5' : 'h-4 w-4';
+
+    return (
+        <>
+            <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => actions.handleVote('upvote')}
+            disabled={actions.isVoting || !user}
+            className={cn(
+                'flex items-center gap-1',
+                variant === 'overlay' && 'text-white hover:text-white',
+                post.userVote === 'upvote' && (variant === 'overlay' ? 'text-green-400 bg-green-400/20 hover:bg-green-400/30' : 'text-primary bg-primary/10'),
+            )}
+            >
+            <ArrowUp className={iconSize} />
+            <span>{post.upvotes}</span>
+            </Button>
+            <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => actions.handleVote('downvote')}
+            disabled={actions.isVoting || !user}
+            className={cn(
+                'flex items-center gap-1',
+                variant === 'overlay' && 'text-white hover:text-white',
+                post.userVote === 'downvote' && (variant === 'overlay' ? 'text-red-400 bg-red-400/20 hover:bg-red-400/30' : 'text-destructive bg-destructive/10'),
+            )}
+            >
+            <ArrowDown className={iconSize} />
+            <span>{post.downvotes}</span>
+            </Button>
+        </>
+    )
+}
+
+// Edit and delete for the author, report for everyone else.
+export function PostActionsMenu({ postId, actions, className }: { postId: string, actions: PostActions, className?: string }) {
+    const router = useRouter();
+    const { t } = useLocale();
+
+    return (
+        <AlertDialog>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className={cn('h-8 w-8 rounded-full', className)}>
+                        <MoreVertical className="h-4 w-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    {actions.isAuthor ? (
+                        <>
+                            <DropdownMenuItem onSelect={() => router.push(`/post/${postId}/edit`)}>
+                                <Edit className="mr-2 h-4 w-4" />
+                                <span>{t('post.edit')}</span>
+                            </DropdownMenuItem>
+                            <AlertDialogTrigger asChild>
+                                <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-destructive focus:bg-destructive/10 focus:text-destructive">
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    <span>{t('buttons.delete')}</span>
+                                </DropdownMenuItem>
+                            </AlertDialogTrigger>
+                        </>
+                    ) : (
+                        <DropdownMenuItem onSelect={() => actions.setIsReportOpen(true)}>
+                            <Flag className="mr-2 h-4 w-4" />
+                            <span>{t('reports.report')}</span>
+                        </DropdownMenuItem>
+                    )}
+                </DropdownMenuContent>
+            </DropdownMenu>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>{t('post.deleteConfirmationTitle')}</AlertDialogTitle>
+                    <AlertDialogDescription>{t('post.deleteConfirmationDescription')}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel>{t('buttons.cancel')}</AlertDialogCancel>
+                    <AlertDialogAction onClick={actions.handleDelete} disabled={actions.isDeleting}>
+                        {actions.isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('buttons.delete')}
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    )
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/useLocale';
+import { useRestriction } from '@/hooks/useRestriction';
+import { REPORT_REASONS, DEFAULT_REPORT_THRESHOLD, type ReportReason } from '@/lib/types';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+
+interface ReportDialogProps {
+  postId: string;
+  commentId?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// One report per user and target. The deterministic ID lets the rules reject duplicates.
+const getReportId = (userId: string, postId: string, commentId?: string | null) => `${commentId || postId}_${userId}`;
+
+export function ReportDialog({ postId, commentId, open, onOpenChange }: ReportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useLocale();
+  const { checkBlocked } = useRestriction();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason('');
+      setDetails('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = () => {
+    if (!user) {
+      toast({ title: t('reports.signInToReport'), variant: 'destructive' });
+      return;
+    }
+    if (!reason || checkBlocked()) return;
+
+    startTransition(async () => {
+      const reportRef = doc(db, 'reports', getReportId(user.uid, postId, commentId));
+      const postRef = doc(db, 'posts', postId);
+      const settingsRef = doc(db, 'settings', 'config');
+      const reportData = {
+        targetType: commentId ? 'comment' : 'post',
+        postId,
+        commentId: commentId || null,
+        userId: user.uid,
+        reason,
+        details: details.trim(),
+        status: 'pending',
+        createdAt: serverTimestamp(),
+      };
+
+      try {
+        await runTransaction(db, async (transaction) => {
+          const existingReport = await transaction.get(reportRef);
+          if (existingReport.exists()) {
+            throw new Error('already-reported');
+          }
+          const postDoc = await transaction.get(postRef);
+          if (!postDoc.exists()) {
+            throw new Error("Post does not exist!");
+          }
+          const settingsDoc = await transaction.get(settingsRef);
+
+          transaction.set(reportRef, reportData);
+
+          // Only post reports count towards the post's report total.
+          if (!commentId) {
+            const newReportCount = (postDoc.data().reports || 0) + 1;
+            const threshold = settingsDoc.data()?.reportThreshold || DEFAULT_REPORT_THRESHOLD;
+
+            // Enough distinct users reported it: pull the post from the feed until an admin reviews it.
+            if (postDoc.data().status === 'approved' && newReportCount >= threshold) {
+              transaction.update(postRef, { reports: newReportCount, status: 'pending', isFlagged: true });
+            } else {
+              transaction.update(postRef, { reports: newReportCount });
+            }
+          }
+        });
+        toast({ title: t('reports.submitted'), description: t('reports.submittedDescription') });
+        handleOpenChange(false);
+      } catch (e: any) {
+        if (e?.message === 'already-reported') {
+          toast({ title: t('reports.alreadyReported'), description: t('reports.alreadyReportedDescription') });
+          handleOpenChange(false);
+          return;
+        }
+        const permissionError = new FirestorePermissionError({
+          path: reportRef.path,
+          operation: 'create',
+          requestResourceData: reportData,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{commentId ? t('reports.commentDialogTitle') : t('reports.dialogTitle')}</DialogTitle>
+          <DialogDescription>{t('reports.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('reports.reasonLabel')}</Label>
+            <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              {REPORT_REASONS.map(r => (
+                <div key={r} className="flex items-center space-x-2">
+                  <RadioGroupItem value={r} id={`report-reason-${r}`} />
+                  <Label htmlFor={`report-reason-${r}`} className="font-normal">{t(`reports.reasons.${r}`)}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">{t('reports.detailsLabel')}</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder={t('reports.detailsPlaceholder')}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button variant="ghost">{t('buttons.cancel')}</Button></DialogClose>
+          <Button onClick={handleSubmit} disabled={isPending || !reason}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('reports.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Slot } from '@radix-ui/react-slot';
+import { Link as LinkIcon } from 'lucide-react';
+import type { Post } from '@/lib/types';
+import { postShareUrl, shareIntentUrl, type IntentTarget, type ShareTarget } from '@/lib/share';
+import { socialPlatforms } from '@/lib/socials';
+import { useToast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/useLocale';
+import { useColorTheme } from '@/components/providers/ColorThemeProvider';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+const INTENT_TARGETS: IntentTarget[] = ['whatsapp', 'x', 'facebook'];
+
+interface ShareMenuProps {
+  post: Pick<Post, 'id' | 'title'>;
+  children: React.ReactNode;
+}
+
+// Opens the system share sheet where the browser has one, otherwise a menu of platforms.
+export function ShareMenu({ post, children }: ShareMenuProps) {
+  const { toast } = useToast();
+  const { t, locale } = useLocale();
+  const { theme } = useColorTheme();
+  // Only known after mount: the server render can't tell.
+  const [canShareNatively, setCanShareNatively] = useState(false);
+
+  useEffect(() => {
+    setCanShareNatively(typeof navigator.share === 'function');
+  }, []);
+
+  const shareUrl = (target: ShareTarget) => postShareUrl(post.id, { origin: window.location.origin, target, locale, theme });
+
+  const handleNativeShare = async () => {
+    try {
+      await navigator.share({ title: post.title, text: post.title, url: shareUrl('native') });
+    } catch (error: any) {
+      // Closing the share sheet rejects with AbortError.
+      if (error?.name !== 'AbortError') {
+        console.error("Error sharing post:", error);
+      }
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl('copy'));
+      toast({ title: t('share.linkCopied') });
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast({ title: t('toasts.error'), description: t('share.copyFailed'), variant: 'destructive' });
+    }
+  };
+
+  const handleIntent = (target: IntentTarget) => {
+    window.open(shareIntentUrl(target, shareUrl(target), post.title), '_blank', 'noopener,noreferrer');
+  };
+
+  if (canShareNatively) {
+    return <Slot onClick={handleNativeShare}>{children}</Slot>;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={handleCopyLink}>
+          <LinkIcon className="mr-2 h-4 w-4" />
+          <span>{t('share.copyLink')}</span>
+        </DropdownMenuItem>
+        {INTENT_TARGETS.map(target => {
+          const { icon: Icon, name } = socialPlatforms[target];
+          return (
+            <DropdownMenuItem key={target} onSelect={() => handleIntent(target)}>
+              <Icon className="mr-2 h-4 w-4" />
+              <span>{name}</span>
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,10 @@
+import { Laugh, Sparkles, BookOpen, Lightbulb, type LucideIcon } from 'lucide-react';
+import type { Category } from '@/lib/types';
+
+// Shared by the feed cards and the generated share images.
+export const categoryIcons: Record<Category, LucideIcon> = {
+    funny: Laugh,
+    deep: Sparkles,
+    random: BookOpen,
+    advice: Lightbulb,
+};
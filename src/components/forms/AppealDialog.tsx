@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { authorizedFetch } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/useLocale';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+interface AppealDialogProps {
+  postId: string;
+  // Appeal one of the post's images instead of the post itself.
+  imageUrl?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAppealed: () => void;
+}
+
+export function AppealDialog({ postId, imageUrl, open, onOpenChange, onAppealed }: AppealDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useLocale();
+  const [message, setMessage] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setMessage('');
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = () => {
+    if (!user || message.trim() === '') return;
+
+    startTransition(async () => {
+      try {
+        const res = await authorizedFetch(user, '/api/appeals', {
+          method: 'POST',
+          body: JSON.stringify({ postId, imageUrl: imageUrl || null, message }),
+        });
+        const result = await res.json();
+        if (!res.ok) {
+          throw new Error(result.error || 'Could not submit appeal.');
+        }
+        toast({ title: t('appeals.submitted'), description: t('appeals.submittedDescription') });
+        onAppealed();
+        handleOpenChange(false);
+      } catch (e: any) {
+        console.error(e);
+        toast({ title: t('toasts.error'), description: e.message, variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{imageUrl ? t('appeals.imageDialogTitle') : t('appeals.dialogTitle')}</DialogTitle>
+          <DialogDescription>{t('appeals.dialogDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="appeal-message">{t('appeals.messageLabel')}</Label>
+          <Textarea
+            id="appeal-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={t('appeals.messagePlaceholder')}
+            maxLength={1000}
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild><Button variant="ghost">{t('buttons.cancel')}</Button></DialogClose>
+          <Button onClick={handleSubmit} disabled={isPending || message.trim() === ''}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('appeals.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
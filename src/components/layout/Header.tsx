@@ -5,9 +5,10 @@ import { useAuth } from '@/hooks/useAuth';
 import { LoginButton } from '@/components/auth/LoginButton';
 import { UserMenu } from '@/components/auth/UserMenu';
 import { Button } from '@/components/ui/button';
-import { BookLock, LayoutDashboard, Plus } from 'lucide-react';
+import { BookLock, LayoutDashboard, Plus, Search } from 'lucide-react';
 import { ThemeToggle } from '../ThemeToggle';
 import { LanguageToggle } from '../LanguageToggle';
+import { NotificationBell } from './NotificationBell';
 import { useLocale } from '@/hooks/useLocale';
 
 export function Header() {
@@ -47,8 +48,15 @@ export function Header() {
                 </Button>
             </>
             )}
+            <Button asChild variant="ghost" size="icon">
+                <Link href="/search">
+                    <Search className="h-5 w-5" />
+                    <span className="sr-only">{t('header.search')}</span>
+                </Link>
+            </Button>
             <ThemeToggle />
             <LanguageToggle />
+            {!loading && user && <NotificationBell />}
             {loading ? null : user ? <UserMenu /> : <LoginButton />}
           </nav>
         </div>
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { collection, doc, onSnapshot, query, where, writeBatch } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import type { Notification } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { cn } from '@/lib/utils';
+
+// Only the most recent notifications are shown; older ones are still in Firestore.
+const MAX_NOTIFICATIONS = 20;
+
+export function NotificationBell() {
+  const { user } = useAuth();
+  const { t } = useLocale();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    // Sorted on the client so the query doesn't need a composite index.
+    const q = query(collection(db, 'notifications'), where('userId', '==', user.uid));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const notificationsData = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Notification));
+      notificationsData.sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+      setNotifications(notificationsData.slice(0, MAX_NOTIFICATIONS));
+    }, (error) => {
+      console.error("Error fetching notifications:", error);
+    });
+    return () => unsubscribe();
+  }, [user]);
+
+  const unread = notifications.filter(n => !n.read);
+
+  // Opening the list counts as reading everything in it.
+  const handleOpenChange = (open: boolean) => {
+    if (!open || unread.length === 0) return;
+    const batch = writeBatch(db);
+    unread.forEach(n => batch.update(doc(db, 'notifications', n.id), { read: true }));
+    batch.commit().catch(() => {
+      const permissionError = new FirestorePermissionError({ path: `notifications/${unread[0].id}`, operation: 'update', requestResourceData: { read: true } });
+      errorEmitter.emit('permission-error', permissionError);
+    });
+  };
+
+  if (!user) return null;
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground">
+              {unread.length}
+            </span>
+          )}
+          <span className="sr-only">{t('notifications.title')}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b p-3 font-semibold text-sm">{t('notifications.title')}</div>
+        {notifications.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">{t('notifications.empty')}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <Link
+                key={notification.id}
+                href="/my-posts"
+                className={cn("block border-b p-3 text-sm last:border-0 hover:bg-muted", !notification.read && "bg-muted/50")}
+              >
+                <p className="font-medium">
+                  {t(`notifications.appealResolved.${notification.outcome}`, { title: notification.postTitle })}
+                </p>
+                {notification.note && <p className="mt-1 text-muted-foreground">&ldquo;{notification.note}&rdquo;</p>}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {notification.createdAt ? formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true }) : ''}
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
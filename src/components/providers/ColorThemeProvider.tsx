@@ -1,23 +1,21 @@
 'use client';
 
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-
-const THEMES = ['purple', 'green', 'slate'] as const;
-type ThemeColor = typeof THEMES[number];
+import { COLOR_THEMES, DEFAULT_COLOR_THEME, type ColorTheme } from '@/lib/themes';
 
 type ThemeColorProviderProps = {
   children: ReactNode;
-  defaultTheme?: ThemeColor;
+  defaultTheme?: ColorTheme;
   storageKey?: string;
 };
 
 type ThemeColorProviderState = {
-  theme: ThemeColor;
-  setTheme: (theme: ThemeColor) => void;
+  theme: ColorTheme;
+  setTheme: (theme: ColorTheme) => void;
 };
 
 const initialState: ThemeColorProviderState = {
-  theme: 'slate',
+  theme: DEFAULT_COLOR_THEME,
   setTheme: () => null,
 };
 
@@ -25,18 +23,18 @@ const ThemeColorContext = createContext<ThemeColorProviderState>(initialState);
 
 export function ColorThemeProvider({
   children,
-  defaultTheme = 'slate',
+  defaultTheme = DEFAULT_COLOR_THEME,
   storageKey = 'secretscroll-color-theme',
 }: ThemeColorProviderProps) {
-  const [theme, setTheme] = useState<ThemeColor>(
-    () => ((typeof window !== 'undefined' && localStorage.getItem(storageKey)) as ThemeColor) || defaultTheme
+  const [theme, setTheme] = useState<ColorTheme>(
+    () => ((typeof window !== 'undefined' && localStorage.getItem(storageKey)) as ColorTheme) || defaultTheme
   );
 
   useEffect(() => {
     const root = window.document.documentElement;
 
     // Remove all theme classes
-    THEMES.forEach(t => root.classList.remove(`theme-${t}`));
+    COLOR_THEMES.forEach(t => root.classList.remove(`theme-${t}`));
 
     // Add the current theme class
     if (theme) {
@@ -46,7 +44,7 @@ export function ColorThemeProvider({
 
   const value = {
     theme,
-    setTheme: useCallback((newTheme: ThemeColor) => {
+    setTheme: useCallback((newTheme: ColorTheme) => {
       if (typeof window !== 'undefined') {
         localStorage.setItem(storageKey, newTheme);
       }
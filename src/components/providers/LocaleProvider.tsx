@@ -2,32 +2,9 @@
 
 import { createContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
 
-import en from '@/locales/en.json';
-import fr from '@/locales/fr.json';
-import ar from '@/locales/ar.json';
+import { isLocale, isRtl, translate, type Locale } from '@/lib/i18n';
 
-export type Locale = 'en' | 'fr' | 'ar';
-
-const translations = { en, fr, ar };
-
-// Helper to get nested keys. e.g., t('welcome.title')
-const getTranslation = (locale: Locale, key: string): string => {  
-  const keys = key.split('.');
-  let result: any = translations[locale];
-  for (const k of keys) {
-    result = result?.[k];
-    if (result === undefined) {
-      // Fallback to English if key not found in current locale
-      let fallbackResult: any = translations.en;
-      for (const fk of keys) {
-          fallbackResult = fallbackResult?.[fk];
-          if(fallbackResult === undefined) return key; // return key if not in english either
-      }
-      return fallbackResult || key;
-    }
-  }
-  return result || key;
-};
+export type { Locale };
 
 type LocaleContextType = {
   locale: Locale;
@@ -46,14 +23,14 @@ export function LocaleProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     const storedLocale = localStorage.getItem('secretscroll-locale') as Locale;
-    if (storedLocale && ['en', 'fr', 'ar'].includes(storedLocale)) {
+    if (isLocale(storedLocale)) {
       setLocaleState(storedLocale);
     }
   }, []);
 
   useEffect(() => {
     document.documentElement.lang = locale;
-    document.documentElement.dir = locale === 'ar' ? 'rtl' : 'ltr';
+    document.documentElement.dir = isRtl(locale) ? 'rtl' : 'ltr';
   }, [locale]);
   
   const setLocale = useCallback((newLocale: Locale) => {
@@ -61,15 +38,7 @@ export function LocaleProvider({ children }: { children: ReactNode }) {
     localStorage.setItem('secretscroll-locale', newLocale);
   }, []);
 
-  const t = useCallback((key: string, values?: Record<string, string>): string => {
-    let text = getTranslation(locale, key);
-    if (values) {
-        Object.keys(values).forEach(valueKey => {
-            text = text.replace(`{${valueKey}}`, values[valueKey]);
-        })
-    }
-    return text;
-  }, [locale]);
+  const t = useCallback((key: string, values?: Record<string, string>): string => translate(locale, key, values), [locale]);
 
   const value = useMemo(() => ({
     locale,
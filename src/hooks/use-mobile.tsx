@@ -2,18 +2,24 @@ import * as React from "react"
 
 const MOBILE_BREAKPOINT = 768
 
-export function useIsMobile() {
-  const [isMobile, setIsMobile] = React.useState<boolean | undefined>(undefined)
+const mobileQuery = `(max-width: ${MOBILE_BREAKPOINT - 1}px)`
 
-  React.useEffect(() => {
-    const mql = window.matchMedia(`(max-width: ${MOBILE_BREAKPOINT - 1}px)`)
-    const onChange = () => {
-      setIsMobile(window.innerWidth < MOBILE_BREAKPOINT)
-    }
-    mql.addEventListener("change", onChange)
-    setIsMobile(window.innerWidth < MOBILE_BREAKPOINT)
-    return () => mql.removeEventListener("change", onChange)
-  }, [])
+function subscribe(onChange: () => void) {
+  const mql = window.matchMedia(mobileQuery)
+  mql.addEventListener("change", onChange)
+  return () => mql.removeEventListener("change", onChange)
+}
 
-  return !!isMobile
+// Whether the screen is below the `md` breakpoint, or undefined while hydrating, when the server
+// can't know. Components that render a different layout per screen size wait for it.
+export function useMobileLayout(): boolean | undefined {
+  return React.useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(mobileQuery).matches,
+    () => undefined
+  )
+}
+
+export function useIsMobile() {
+  return !!useMobileLayout()
 }
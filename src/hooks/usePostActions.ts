@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { doc, deleteDoc } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { authorizedFetch } from '@/lib/api';
+import type { Post } from '@/lib/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import { useToast } from '@/hooks/use-toast';
+import { useRestriction } from '@/hooks/useRestriction';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+
+export type VoteResult = Pick<Post, 'upvotes' | 'downvotes' | 'userVote'>;
+
+interface PostActionsOptions {
+  // Called with the new counters and the user's vote once the server has recorded it.
+  onVoted?: (result: VoteResult) => void;
+  onDeleted?: () => void;
+}
+
+// Voting, deleting and reporting a post, shared by the feed cards and the post page.
+export const usePostActions = (post: { id: string, authorUid?: string | null }, { onVoted, onDeleted }: PostActionsOptions = {}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useLocale();
+  const { checkBlocked } = useRestriction();
+  const [isVoting, setIsVoting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
+  const isAuthor = !!user && user.uid === post.authorUid;
+
+  const handleDelete = () => {
+    if (!isAuthor) {
+        toast({ title: t('toasts.permissionDenied'), variant: 'destructive' });
+        return;
+    }
+    setIsDeleting(true);
+    const postRef = doc(db, 'posts', post.id);
+    deleteDoc(postRef)
+        .then(() => {
+            toast({ title: t('toasts.postDeleted'), description: t('toasts.postDeletedDescription') });
+            onDeleted?.();
+        })
+        .catch(() => {
+            const permissionError = new FirestorePermissionError({ path: postRef.path, operation: 'delete' });
+            errorEmitter.emit('permission-error', permissionError);
+        })
+        .finally(() => {
+            setIsDeleting(false);
+        });
+  };
+
+  const handleVote = (voteType: 'upvote' | 'downvote') => {
+    if (!user) {
+      toast({ title: t('post.signInToVote'), variant: 'destructive' });
+      return;
+    }
+    if (isVoting || checkBlocked()) return;
+
+    setIsVoting(true);
+
+    // The server records the vote and moves the counters, so they can't be forged or counted twice.
+    authorizedFetch(user, '/api/votes', {
+      method: 'POST',
+      body: JSON.stringify({ postId: post.id, type: voteType }),
+    })
+    .then(async (res) => {
+      const result = await res.json();
+      if (res.status === 429) {
+        toast({
+          title: t('rateLimit.title'),
+          description: t('rateLimit.votesDescription', { time: formatDistanceToNow(new Date(result.retryAt), { addSuffix: true }) }),
+          variant: 'destructive',
+        });
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(result.error || 'Could not save your vote.');
+      }
+      onVoted?.({ upvotes: result.upvotes, downvotes: result.downvotes, userVote: result.userVote });
+    })
+    .catch((e: any) => {
+      console.error('Error voting:', e);
+      toast({ title: t('toasts.error'), description: e.message, variant: 'destructive' });
+    })
+    .finally(() => {
+      setIsVoting(false);
+    });
+  };
+
+  return { isAuthor, isVoting, handleVote, isDeleting, handleDelete, isReportOpen, setIsReportOpen };
+};
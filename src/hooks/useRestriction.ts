@@ -0,0 +1,32 @@
+'use client';
+
+import { useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import { useToast } from '@/hooks/use-toast';
+import { activeRestriction } from '@/lib/restrictions';
+
+// The signed-in user's current suspension, ban or shadowban. `checkBlocked` tells a suspended or
+// banned user why they can't act and returns true; the rules and API routes refuse them anyway.
+export const useRestriction = () => {
+  const { userProfile } = useAuth();
+  const { t } = useLocale();
+  const { toast } = useToast();
+  const restriction = activeRestriction(userProfile?.restriction);
+
+  const checkBlocked = useCallback(() => {
+    if (!restriction || restriction.type === 'shadowban') return false;
+    toast({
+      title: restriction.type === 'suspension' ? t('restrictions.suspendedTitle') : t('restrictions.bannedTitle'),
+      description: restriction.type === 'suspension' && restriction.expiresAt
+        ? t('restrictions.suspendedDescription', { date: format(restriction.expiresAt.toDate(), 'PPp'), reason: restriction.reason })
+        : t('restrictions.bannedDescription', { reason: restriction.reason }),
+      variant: 'destructive',
+      duration: 9000,
+    });
+    return true;
+  }, [restriction, t, toast]);
+
+  return { restriction, checkBlocked };
+};
@@ -0,0 +1,15 @@
+import type { User } from 'firebase/auth';
+
+// Calls one of our API routes on behalf of the signed-in user.
+// The route verifies the ID token with `getRequestUser`.
+export async function authorizedFetch(user: User, input: string, init: RequestInit = {}) {
+  const idToken = await user.getIdToken();
+  return fetch(input, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+      Authorization: `Bearer ${idToken}`,
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import type { User } from 'firebase/auth';
+import { collection, doc, serverTimestamp, type DocumentReference, type FieldValue } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { AuditLogEntry } from '@/lib/types';
+
+type AuditEntryData = Omit<AuditLogEntry, 'id' | 'createdAt'> & { createdAt: FieldValue };
+
+export type AuditDetails = Pick<AuditLogEntry, 'action' | 'targetType' | 'targetId'> &
+  Partial<Pick<AuditLogEntry, 'targetLabel' | 'before' | 'after'>>;
+
+// Builds an audit log entry for the signed-in admin. Write it in the same batch or
+// transaction as the action itself; the rules refuse an entry whose target isn't changed
+// or deleted by the same write:
+//   const audit = auditEntry(user, { ... });
+//   batch.set(audit.ref, audit.data);
+export function auditEntry(actor: User, details: AuditDetails): { ref: DocumentReference; data: AuditEntryData } {
+  return {
+    ref: doc(collection(db, 'auditLog')),
+    data: {
+      actorUid: actor.uid,
+      actorEmail: actor.email,
+      action: details.action,
+      targetType: details.targetType,
+      targetId: details.targetId,
+      targetLabel: details.targetLabel ?? null,
+      before: details.before ?? null,
+      after: details.after ?? null,
+      createdAt: serverTimestamp(),
+    },
+  };
+}
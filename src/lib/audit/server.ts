@@ -0,0 +1,23 @@
+import { FieldValue, type DocumentReference } from 'firebase-admin/firestore';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { adminDb } from '@/lib/firebase-admin';
+import type { AuditDetails } from '.';
+
+// Builds an audit log entry for the admin behind an API request, with the Admin SDK. Server-only.
+// Like auditEntry, write it in the same batch or transaction as the action itself.
+export function adminAuditEntry(actor: DecodedIdToken, details: AuditDetails): { ref: DocumentReference; data: Record<string, unknown> } {
+  return {
+    ref: adminDb.collection('auditLog').doc(),
+    data: {
+      actorUid: actor.uid,
+      actorEmail: actor.email ?? null,
+      action: details.action,
+      targetType: details.targetType,
+      targetId: details.targetId,
+      targetLabel: details.targetLabel ?? null,
+      before: details.before ?? null,
+      after: details.after ?? null,
+      createdAt: FieldValue.serverTimestamp(),
+    },
+  };
+}
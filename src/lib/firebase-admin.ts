@@ -0,0 +1,48 @@
+import { initializeApp, getApps, getApp, cert, type AppOptions } from 'firebase-admin/app';
+import { getAuth, type DecodedIdToken } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import type { Permission, UserProfile } from '@/lib/types';
+import { activeRestriction } from '@/lib/restrictions';
+
+// Server-only. On App Hosting the default credentials are picked up automatically;
+// elsewhere, set FIREBASE_SERVICE_ACCOUNT to the service account JSON.
+const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+const adminOptions: AppOptions = serviceAccount
+  ? { credential: cert(JSON.parse(serviceAccount)) }
+  : { projectId: 'studio-5067807929-254e6' };
+
+// Initialize Firebase Admin
+const adminApp = !getApps().length ? initializeApp(adminOptions) : getApp();
+const adminAuth = getAuth(adminApp);
+const adminDb = getFirestore(adminApp);
+
+// Resolves the signed-in user from the `Authorization: Bearer <idToken>` header.
+async function getRequestUser(request: Request): Promise<DecodedIdToken | null> {
+  const header = request.headers.get('Authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+  try {
+    return await adminAuth.verifyIdToken(header.slice('Bearer '.length));
+  } catch (error) {
+    console.error('Invalid ID token:', error);
+    return null;
+  }
+}
+
+// Same check as isAdmin() in firestore.rules. When permissions are given, the admin
+// needs at least one of them (like hasPermission() in the rules).
+async function getRequestAdmin(request: Request, ...permissions: Permission[]): Promise<DecodedIdToken | null> {
+  const requestUser = await getRequestUser(request);
+  if (!requestUser) return null;
+  const profile = (await adminDb.doc(`users/${requestUser.uid}`).get()).data() as UserProfile | undefined;
+  if (profile?.role !== 'admin') return null;
+  if (permissions.length > 0 && !permissions.some(permission => profile.permissions?.[permission])) return null;
+  return requestUser;
+}
+
+// The suspension, ban or shadowban currently on the user's profile, if any.
+async function getUserRestriction(uid: string) {
+  const profile = (await adminDb.doc(`users/${uid}`).get()).data() as UserProfile | undefined;
+  return activeRestriction(profile?.restriction);
+}
+
+export { adminApp, adminAuth, adminDb, getRequestUser, getRequestAdmin, getUserRestriction };
@@ -0,0 +1,43 @@
+import en from '@/locales/en.json';
+import fr from '@/locales/fr.json';
+import ar from '@/locales/ar.json';
+
+export const LOCALES = ['en', 'fr', 'ar'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+const translations = { en, fr, ar };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const isRtl = (locale: Locale) => locale === 'ar';
+
+// Helper to get nested keys. e.g., getTranslation('en', 'welcome.title')
+export const getTranslation = (locale: Locale, key: string): string => {  
+  const keys = key.split('.');
+  let result: any = translations[locale];
+  for (const k of keys) {
+    result = result?.[k];
+    if (result === undefined) {
+      // Fallback to English if key not found in current locale
+      let fallbackResult: any = translations.en;
+      for (const fk of keys) {
+          fallbackResult = fallbackResult?.[fk];
+          if(fallbackResult === undefined) return key; // return key if not in english either
+      }
+      return fallbackResult || key;
+    }
+  }
+  return result || key;
+};
+
+// getTranslation with `{name}` placeholders filled in.
+export function translate(locale: Locale, key: string, values?: Record<string, string>): string {
+  let text = getTranslation(locale, key);
+  if (values) {
+      Object.keys(values).forEach(valueKey => {
+          text = text.replace(`{${valueKey}}`, values[valueKey]);
+      })
+  }
+  return text;
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_MODERATION_PROVIDERS } from '@/lib/types';
+import { findForbiddenWords } from './forbidden-words';
+import { getInputText } from './normalize';
+import type { ModerationProvider } from './types';
+
+// This is a public API from APILayer that checks for bad words.
+// You can sign up for a free key at https://apilayer.com/marketplace/bad_words-api
+const API_URL = 'https://api.apilayer.com/bad_words';
+
+export const externalApiProvider: ModerationProvider = {
+  id: 'external_api',
+  defaultConfig: DEFAULT_MODERATION_PROVIDERS.external_api,
+  async check(input, settings) {
+    const apiKey = process.env.BAD_WORDS_API_KEY;
+    const text = getInputText(input).trim();
+
+    if (!apiKey) {
+      console.error('Bad words API key is not configured in .env file.');
+      return { providerId: 'external_api', score: 0, reasons: [], error: 'Content moderation is not configured.' };
+    }
+    if (!text) {
+      return { providerId: 'external_api', score: 0, reasons: [] };
+    }
+
+    try {
+      const response = await fetch(API_URL, {
+        method: 'POST',
+        headers: {
+          'apikey': apiKey
+        },
+        body: text
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Bad words API request failed:', response.status, response.statusText, errorText);
+        return { providerId: 'external_api', score: 0, reasons: [], error: 'Content moderation service failed.' };
+      }
+
+      const result = await response.json();
+      // The API flags plenty of ordinary names, so anything on our allowlist is dropped.
+      const badWords: string[] = (result.bad_words_list || [])
+        .map((w: { word: string }) => w.word)
+        .filter((word: string) => findForbiddenWords(word, settings.allowlist).length === 0);
+
+      // Each extra bad word halves the remaining distance to 1: one word scores 0.5, two 0.75...
+      return { providerId: 'external_api', score: 1 - Math.pow(0.5, badWords.length), reasons: badWords };
+    } catch (error) {
+      console.error('Error calling bad words API:', error);
+      return { providerId: 'external_api', score: 0, reasons: [], error: 'Could not connect to content moderation service.' };
+    }
+  },
+};
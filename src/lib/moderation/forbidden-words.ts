@@ -0,0 +1,79 @@
+import { DEFAULT_MODERATION_PROVIDERS } from '@/lib/types';
+import { getInputText, tokenize } from './normalize';
+import type { ModerationProvider } from './types';
+
+interface WordPattern {
+  entry: string;
+  tokens: string[];
+  // "*word" also matches "badword", "word*" also matches "wordy".
+  anyPrefix: boolean;
+  anySuffix: boolean;
+}
+
+function parseEntry(entry: string): WordPattern | null {
+  const trimmed = entry.trim();
+  const tokens = tokenize(trimmed.replace(/^\*+|\*+$/g, ''));
+  if (tokens.length === 0) return null;
+  return {
+    entry,
+    tokens,
+    anyPrefix: trimmed.startsWith('*'),
+    anySuffix: trimmed.endsWith('*'),
+  };
+}
+
+function matchesAt(textTokens: string[], start: number, pattern: WordPattern): boolean {
+  const last = pattern.tokens.length - 1;
+  return pattern.tokens.every((token, i) => {
+    const word = textTokens[start + i];
+    if (word === undefined) return false;
+    const wildStart = i === 0 && pattern.anyPrefix;
+    const wildEnd = i === last && pattern.anySuffix;
+    if (wildStart && wildEnd) return word.includes(token);
+    if (wildStart) return word.endsWith(token);
+    if (wildEnd) return word.startsWith(token);
+    return word === token;
+  });
+}
+
+// Indexes of the words covered by an allowlist entry, e.g. both words of "dick smith".
+function allowlistedTokens(textTokens: string[], allowlist: string[]): Set<number> {
+  const covered = new Set<number>();
+  for (const entry of allowlist) {
+    const pattern = parseEntry(entry);
+    if (!pattern) continue;
+    textTokens.forEach((_, start) => {
+      if (matchesAt(textTokens, start, pattern)) {
+        pattern.tokens.forEach((_, i) => covered.add(start + i));
+      }
+    });
+  }
+  return covered;
+}
+
+// Returns the entries of `forbiddenWords` found in `text`. Both sides go through the same
+// normaliser, so "b4dw0rd", "bаdword" (Cyrillic а) and "b.a.d.w.o.r.d" all match "badword".
+// A match that falls entirely inside an allowlisted phrase doesn't count.
+export function findForbiddenWords(text: string, forbiddenWords: string[], allowlist: string[] = []): string[] {
+  const textTokens = tokenize(text);
+  if (textTokens.length === 0) return [];
+  const allowed = allowlistedTokens(textTokens, allowlist);
+
+  return forbiddenWords.filter(entry => {
+    const pattern = parseEntry(entry);
+    if (!pattern) return false;
+    return textTokens.some((_, start) =>
+      matchesAt(textTokens, start, pattern) &&
+      !pattern.tokens.every((_, i) => allowed.has(start + i))
+    );
+  });
+}
+
+export const forbiddenWordsProvider: ModerationProvider = {
+  id: 'forbidden_words',
+  defaultConfig: DEFAULT_MODERATION_PROVIDERS.forbidden_words,
+  check(input, settings) {
+    const foundWords = findForbiddenWords(getInputText(input), settings.forbiddenWords, settings.allowlist);
+    return { providerId: 'forbidden_words', score: foundWords.length > 0 ? 1 : 0, reasons: foundWords };
+  },
+};
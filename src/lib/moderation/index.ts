@@ -0,0 +1,64 @@
+import type { ModerationCheck, ModerationInput, ModerationProvider, ModerationResult, ModerationSettings } from './types';
+import { protectedNamesProvider } from './protected-names';
+import { forbiddenWordsProvider } from './forbidden-words';
+import { localClassifierProvider } from './local-classifier';
+import { externalApiProvider } from './external-api';
+
+export { containsProtectedName, findProtectedName, describeProtectedNameMatch } from './protected-names';
+export type { ProtectedNameMatch } from './protected-names';
+export { findForbiddenWords } from './forbidden-words';
+export { classifyText } from './local-classifier';
+export { tokenize, getInputText } from './normalize';
+export type * from './types';
+
+// Order matters: the first provider that fires is reported as the reason.
+export const defaultProviders: ModerationProvider[] = [
+  protectedNamesProvider,
+  forbiddenWordsProvider,
+  localClassifierProvider,
+  externalApiProvider,
+];
+
+// Runs every enabled provider and collects their scores. Provider config in settings
+// is merged over each provider's defaults, so admins only store what they changed.
+export async function runModeration(
+  input: ModerationInput,
+  settings: ModerationSettings,
+  providers: ModerationProvider[] = defaultProviders
+): Promise<ModerationCheck[]> {
+  const enabled = providers
+    .map(provider => ({ provider, config: { ...provider.defaultConfig, ...settings.providers?.[provider.id] } }))
+    .filter(({ config }) => config.enabled);
+
+  return Promise.all(enabled.map(async ({ provider, config }) => {
+    const result = await provider.check(input, settings);
+    // A provider that couldn't run sends the post to review rather than letting it through.
+    const fired = Boolean(result.error) || result.score >= config.threshold;
+    return { ...result, config, fired };
+  }));
+}
+
+// Decides the status of a new or edited post. This is the single source of truth
+// and only runs on the server (see /api/posts), so it can't be skipped by the client.
+export async function moderatePost(
+  input: ModerationInput,
+  settings: ModerationSettings,
+  providers: ModerationProvider[] = defaultProviders
+): Promise<ModerationResult> {
+  const checks = await runModeration(input, settings, providers);
+  const fired = checks.filter(check => check.fired);
+  const matches = checks.find(check => check.providerId === 'forbidden_words')?.reasons || [];
+
+  // Any "reject" provider wins over "review" ones.
+  const status = fired.some(check => check.config.action === 'reject')
+    ? 'rejected'
+    : fired.length > 0 ? 'pending' : 'approved';
+
+  return {
+    status,
+    isFlagged: fired.length > 0,
+    reason: fired[0]?.providerId || null,
+    matches,
+    checks,
+  };
+}
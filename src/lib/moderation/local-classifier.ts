@@ -0,0 +1,82 @@
+import { DEFAULT_MODERATION_PROVIDERS } from '@/lib/types';
+import { findForbiddenWords } from './forbidden-words';
+import { getInputText } from './normalize';
+import type { ModerationInput, ModerationProvider } from './types';
+
+// A small offline classifier so we still get a second opinion when the external API
+// is off or unreachable. Weights are rough: 1 is "always bad", lower values are words
+// that are only bad in some contexts and need a couple of other signals to cross the threshold.
+const LEXICON: Record<string, number> = {
+  // en
+  'fuck': 0.8, 'fucking': 0.8, 'shit': 0.5, 'bitch': 0.8, 'bastard': 0.6, 'asshole': 0.8,
+  'cunt': 1, 'whore': 0.9, 'slut': 0.9, 'dick': 0.5, 'pussy': 0.6, 'retard': 0.8,
+  'faggot': 1, 'nigger': 1, 'idiot': 0.3, 'stupid': 0.2, 'ugly': 0.2, 'loser': 0.3,
+  'kill yourself': 1, 'kys': 1,
+  // fr
+  'pute': 0.9, 'putain': 0.6, 'salope': 0.9, 'connard': 0.7, 'connasse': 0.7, 'conne': 0.5,
+  'encule': 0.9, 'merde': 0.4, 'batard': 0.6, 'nique': 0.8,
+  'pd': 0.8, 'débile': 0.3, 'moche': 0.2, 'crève': 0.7,
+  // ar (including common Latin transliterations)
+  'شرموطة': 1, 'قحبة': 1, 'زامل': 0.9, 'حمار': 0.3, 'كلب': 0.4, 'غبي': 0.3, 'حقير': 0.5,
+  'عاهرة': 1, 'منيوك': 1,
+  'charmouta': 1, 'qahba': 1, '9ahba': 1, 'zamel': 0.9, 'hmar': 0.3, 'kelb': 0.4, 'zebi': 0.9,
+};
+
+const URL_PATTERN = /https?:\/\/\S+|www\.\S+/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.]+/;
+// 9 to 15 digits, optionally grouped by single spaces, dots or dashes.
+const PHONE_PATTERN = /(?:\+|\b)\d(?:[\s.-]?\d){8,14}\b/;
+// Dates ("12.05.1990") and year ranges ("2019-2023") look like digit runs but aren't phone numbers.
+const DATE_PATTERN = /\b(?:\d{1,2}[./-]\d{1,2}[./-]\d{4}|\d{4}[./-]\d{1,2}[./-]\d{1,2})\b/g;
+const YEAR_RANGE_PATTERN = /\b\d{4}\s*[-–]\s*\d{2,4}\b/g;
+
+export function classifyText(input: ModerationInput, allowlist: string[] = []): { score: number; reasons: string[] } {
+  const text = getInputText(input).trim();
+  if (!text) return { score: 0, reasons: [] };
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  // Same normaliser as the forbidden words list, so leetspeak and look-alikes don't slip through.
+  for (const term of findForbiddenWords(text, Object.keys(LEXICON), allowlist)) {
+    score += LEXICON[term];
+    reasons.push(`lexicon: ${term}`);
+  }
+
+  // Mostly upper case is shouting.
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  if (letters.length >= 10 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) {
+    score += 0.2;
+    reasons.push('shouting');
+  }
+
+  // "looooser", "!!!!!!"
+  if (/(.)\1{4,}/u.test(text)) {
+    score += 0.1;
+    reasons.push('repeated characters');
+  }
+
+  if ((text.match(URL_PATTERN) || []).length > 2) {
+    score += 0.4;
+    reasons.push('too many links');
+  }
+
+  // Personal contact details are doxxing on this site, not self-promotion. Only the free text
+  // counts: WhatsApp and phone custom fields are there on purpose. On its own this stays under
+  // the default threshold.
+  const body = (input.content || '').replace(DATE_PATTERN, ' ').replace(YEAR_RANGE_PATTERN, ' ');
+  if (EMAIL_PATTERN.test(body) || PHONE_PATTERN.test(body)) {
+    score += 0.4;
+    reasons.push('contact details');
+  }
+
+  return { score: Math.min(1, score), reasons };
+}
+
+export const localClassifierProvider: ModerationProvider = {
+  id: 'local_classifier',
+  defaultConfig: DEFAULT_MODERATION_PROVIDERS.local_classifier,
+  check(input, settings) {
+    return { providerId: 'local_classifier', ...classifyText(input, settings.allowlist) };
+  },
+};
@@ -0,0 +1,84 @@
+import type { ModerationInput } from './types';
+
+// Look-alike letters from other scripts that are used to dodge the word filter.
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ї': 'i', 'ј': 'j', 'ԁ': 'd',
+  'ԛ': 'q', 'ԝ': 'w', 'ɡ': 'g',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x', 'ω': 'w',
+  // Latin letters that NFKC and accent stripping leave alone
+  'ł': 'l', 'ø': 'o', 'đ': 'd', 'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ı': 'i',
+};
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '€': 'e',
+};
+
+// Anything that isn't a letter, a digit or a leet symbol separates words.
+const SEPARATORS = /[^\p{L}\p{N}@$!|+€]+/u;
+
+const foldChar = (char: string) => CONFUSABLES[char] ?? char;
+
+function normalizeToken(token: string): string {
+  // "hello!" and "|cool|" are punctuation, not leet.
+  const trimmed = token.replace(/^[!|+]+|[!|+]+$/g, '');
+  if (!/\p{L}/u.test(trimmed)) {
+    // Plain numbers stay numbers; lone symbols are dropped.
+    return /^\p{N}+$/u.test(trimmed) ? trimmed : '';
+  }
+  return trimmed
+    .split('')
+    .map(char => LEET[char] ?? char)
+    .join('')
+    // "baaaad" -> "bad"
+    .replace(/(\p{L})\1{2,}/gu, '$1');
+}
+
+// Splits text into comparable words: NFKC, zero-width characters removed, lower case,
+// accents stripped, look-alikes and leetspeak folded to plain letters.
+// Spelled-out words like "b.a.d" or "b a d" are joined back together.
+export function tokenize(text: string): string[] {
+  const folded = text
+    .normalize('NFKC')
+    .replace(/\p{Cf}/gu, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .normalize('NFC')
+    .split('')
+    .map(foldChar)
+    .join('');
+
+  const tokens = folded.split(SEPARATORS).map(normalizeToken).filter(Boolean);
+
+  const joined: string[] = [];
+  let letters: string[] = [];
+  const flushLetters = () => {
+    if (letters.length >= 3) {
+      joined.push(letters.join(''));
+    } else {
+      joined.push(...letters);
+    }
+    letters = [];
+  };
+  for (const token of tokens) {
+    if (token.length === 1) {
+      letters.push(token);
+    } else {
+      flushLetters();
+      joined.push(token);
+    }
+  }
+  flushLetters();
+  return joined;
+}
+
+// Everything in a post that a reader sees as text: title, content and custom fields.
+export function getInputText(input: ModerationInput): string {
+  const customFields = (input.customFields || []).flatMap(field => [field.label, field.value]);
+  return [input.title, input.content || '', ...customFields].filter(Boolean).join('\n');
+}
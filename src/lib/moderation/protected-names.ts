@@ -0,0 +1,158 @@
+import levenshtein from 'fast-levenshtein';
+import { DEFAULT_MODERATION_PROVIDERS } from '@/lib/types';
+import { nameSkeleton, transliterate } from './transliterate';
+import type { ModerationProvider } from './types';
+
+export interface ProtectedNameMatch {
+  name: string;
+  rule: 'full_string' | 'reversed_string' | 'reversed_word_order' | 'reversed_word' | 'fuzzy' | 'skeleton';
+  // The spelling of the title that matched (raw or transliterated).
+  spelling: string;
+  // Which title word matched which name word, for the word-level rules.
+  words: { nameWord: string; titleWord: string; distance: number }[];
+}
+
+type RuleMatch = Omit<ProtectedNameMatch, 'name' | 'spelling'>;
+
+const toWords = (normalized: string) => normalized.split(/\s+/).filter(w => w.length > 1);
+
+// The original matcher, run on one spelling of the title against one spelling of the name.
+// `useSkeleton` is only set for a title transliterated from Arabic script, where short vowels
+// really are missing; on Latin titles the skeleton would make "Hamid" an "Ahmed".
+function matchProtectedName(normalizedTitle: string, normalizedProtected: string, useSkeleton: boolean): RuleMatch | null {
+  const titleWords = toWords(normalizedTitle);
+  const protectedWords = toWords(normalizedProtected);
+
+  // 1. Direct full string match (original and reversed full)
+  const fullString = normalizedProtected.replace(/\s/g, '');
+  if (!fullString) return null;
+  const reversedFull = fullString.split('').reverse().join('');
+  const titleCompact = normalizedTitle.replace(/\s/g, '');
+  if (titleCompact.includes(fullString)) {
+    return { rule: 'full_string', words: [] };
+  }
+  if (titleCompact.includes(reversedFull)) {
+    return { rule: 'reversed_string', words: [] };
+  }
+
+  // 2. Reversed word order check (e.g., "ezzine ibrahim")
+  const reversedWordsOrder = protectedWords.slice().reverse().join('');
+  if (titleCompact.includes(reversedWordsOrder)) {
+    return { rule: 'reversed_word_order', words: [] };
+  }
+  
+  // 3. Check for reversed individual words (exact match)
+  for (const pWord of protectedWords) {
+    const reversedPWord = pWord.split('').reverse().join('');
+    if (titleWords.includes(reversedPWord)) {
+      // e.g., "miharbi" matches reversed "ibrahim"
+      return { rule: 'reversed_word', words: [{ nameWord: pWord, titleWord: reversedPWord, distance: 0 }] };
+    }
+  }
+
+  // 4. Fuzzy match on each word (including reversed versions)
+  const THRESHOLD = 2; // for typos like "ibrqhi" → "ibrahim"
+  const fuzzyWords: RuleMatch['words'] = [];
+  for (const pWord of protectedWords) {
+    const reversedPWord = pWord.split('').reverse().join('');
+    for (const tWord of titleWords) {
+      const distance = Math.min(
+        levenshtein.get(pWord, tWord),
+        levenshtein.get(reversedPWord, tWord)
+      );
+      if (distance <= THRESHOLD) {
+        fuzzyWords.push({ nameWord: pWord, titleWord: tWord, distance });
+        break;
+      }
+    }
+  }
+  if (fuzzyWords.length === protectedWords.length && protectedWords.length > 0) {
+    return { rule: 'fuzzy', words: fuzzyWords };
+  }
+
+  // 5. Consonant outline of every word, for vowels that Arabic script doesn't write
+  // (e.g. "محمد" -> "mhmd" against "mohamed"). Outlines must match exactly.
+  if (!useSkeleton) {
+    return null;
+  }
+  const protectedSkeletons = protectedWords.map(nameSkeleton);
+  if (protectedSkeletons.join('').length < 3) {
+    return null;
+  }
+  const skeletonWords: RuleMatch['words'] = [];
+  for (const [i, pSkeleton] of protectedSkeletons.entries()) {
+    const tWord = titleWords.find(word => nameSkeleton(word) === pSkeleton);
+    if (!tWord) return null;
+    skeletonWords.push({ nameWord: protectedWords[i], titleWord: tWord, distance: 0 });
+  }
+  return { rule: 'skeleton', words: skeletonWords };
+}
+
+const ARABIC_SCRIPT = /\p{Script=Arabic}/u;
+
+const transliteratedSpelling = (text: string) => transliterate(text).replace(/[^a-z0-9\s]/g, '');
+
+// The ASCII-only spelling the matcher always used, plus a transliterated one so
+// Arabic script and accented letters ("إبراهيم", "Ibrâhîm") aren't stripped away.
+const spellings = (text: string) => Array.from(new Set([
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ''),
+  transliteratedSpelling(text),
+])).filter(spelling => spelling.trim() !== '');
+
+// Removes allowlisted words and phrases, so "Ibrahimovic" can be allowed without unprotecting "Ibrahim".
+function withoutAllowlisted(spelling: string, allowlist: string[]): string {
+  let padded = ` ${spelling.replace(/\s+/g, ' ').trim()} `;
+  for (const entry of allowlist) {
+    for (const allowed of spellings(entry)) {
+      padded = padded.split(` ${allowed.replace(/\s+/g, ' ').trim()} `).join(' ');
+    }
+  }
+  return padded.trim();
+}
+
+// Returns the first protected name found in the title and the rule that caught it.
+export function findProtectedName(title: string, protectedNames: string[], allowlist: string[] = []): ProtectedNameMatch | null {
+  const titleSpellings = spellings(title)
+    .map(spelling => withoutAllowlisted(spelling, allowlist))
+    .filter(spelling => spelling !== '');
+  // Only the words written in Arabic script get the skeleton rule.
+  const arabicWords = title.split(/\s+/).filter(word => ARABIC_SCRIPT.test(word)).join(' ');
+  const arabicSpelling = arabicWords ? withoutAllowlisted(transliteratedSpelling(arabicWords), allowlist) : '';
+  const candidates = [
+    ...titleSpellings.map(spelling => ({ spelling, useSkeleton: false })),
+    ...(arabicSpelling ? [{ spelling: arabicSpelling, useSkeleton: true }] : []),
+  ];
+
+  for (const protectedName of protectedNames) {
+    for (const normalizedProtected of spellings(protectedName)) {
+      for (const { spelling, useSkeleton } of candidates) {
+        const match = matchProtectedName(spelling, normalizedProtected, useSkeleton);
+        if (match) {
+          return { name: protectedName, spelling, ...match };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function containsProtectedName(title: string, protectedNames: string[], allowlist: string[] = []): boolean {
+  return findProtectedName(title, protectedNames, allowlist) !== null;
+}
+
+// e.g. `"ibrahim ezzine" (fuzzy: ibrqhim ~ ibrahim, distance 1; ezzine ~ ezzine, distance 0)`
+export function describeProtectedNameMatch(match: ProtectedNameMatch): string {
+  const words = match.words
+    .map(({ nameWord, titleWord, distance }) => `${titleWord} ~ ${nameWord}, distance ${distance}`)
+    .join('; ');
+  return `"${match.name}" (${match.rule.replace(/_/g, ' ')}${words ? `: ${words}` : ''})`;
+}
+
+export const protectedNamesProvider: ModerationProvider = {
+  id: 'protected_names',
+  defaultConfig: DEFAULT_MODERATION_PROVIDERS.protected_names,
+  check(input, settings) {
+    const match = findProtectedName(input.title, settings.protectedNames, settings.allowlist);
+    return { providerId: 'protected_names', score: match ? 1 : 0, reasons: match ? [describeProtectedNameMatch(match)] : [] };
+  },
+};
@@ -0,0 +1,37 @@
+import * as z from 'zod';
+import { adminDb } from '@/lib/firebase-admin';
+import type { ModerationSettings } from './types';
+
+// Loads the moderation lists and provider config with the Admin SDK. Server-only.
+export async function loadModerationSettings(): Promise<ModerationSettings> {
+  const [configSnap, protectedNamesSnap, allowlistSnap] = await Promise.all([
+    adminDb.doc('settings/config').get(),
+    adminDb.doc('settings/protectedNames').get(),
+    adminDb.doc('settings/allowlist').get(),
+  ]);
+
+  return {
+    forbiddenWords: (configSnap.data()?.forbiddenWords as string[] | undefined) || [],
+    protectedNames: (protectedNamesSnap.data()?.names as string[] | undefined) || [],
+    allowlist: (allowlistSnap.data()?.entries as string[] | undefined) || [],
+    providers: (configSnap.data()?.moderationProviders as ModerationSettings['providers']) || {},
+  };
+}
+
+// Unsaved list changes from the admin rule tester, tried out in place of the saved lists.
+export const moderationOverridesSchema = z.object({
+  forbiddenWords: z.array(z.string()).optional(),
+  protectedNames: z.array(z.string()).optional(),
+  allowlist: z.array(z.string()).optional(),
+}).optional();
+
+export type ModerationOverrides = z.infer<typeof moderationOverridesSchema>;
+
+export function applyModerationOverrides(settings: ModerationSettings, overrides: ModerationOverrides): ModerationSettings {
+  return {
+    ...settings,
+    forbiddenWords: overrides?.forbiddenWords ?? settings.forbiddenWords,
+    protectedNames: overrides?.protectedNames ?? settings.protectedNames,
+    allowlist: overrides?.allowlist ?? settings.allowlist,
+  };
+}
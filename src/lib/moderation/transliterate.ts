@@ -0,0 +1,41 @@
+// Arabic letters spelled the way names are usually written in Latin script here
+// (French-style, e.g. "ou" for و). Short vowels aren't written in Arabic, so the
+// result is approximate; `nameSkeleton` smooths over the vowel differences.
+const ARABIC_TO_LATIN: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ٱ': 'a', 'ء': '', 'ؤ': 'u', 'ئ': 'i',
+  'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'dh',
+  'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z',
+  'ع': 'a', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n',
+  'ه': 'h', 'و': 'ou', 'ي': 'i', 'ى': 'a', 'ة': 'a', 'پ': 'p', 'چ': 'ch', 'ڤ': 'v',
+  'گ': 'g', 'ـ': '',
+};
+
+// "إبراهيم" -> "ibrahim", "Ibrâhîm" -> "ibrahim". Everything else is lower-cased and kept.
+export function transliterate(text: string): string {
+  const latin = text
+    .normalize('NFC')
+    // Drop the article: "الزين" is written "Ezzine" or "Zine", never with the "al".
+    .replace(/(^|\s)ال(?=\p{L}{2})/gu, '$1')
+    .split('')
+    .map(char => ARABIC_TO_LATIN[char] ?? char)
+    .join('');
+
+  return latin
+    .normalize('NFD')
+    // Latin accents and Arabic harakat are both combining marks.
+    .replace(/\p{M}/gu, '')
+    .toLowerCase();
+}
+
+// Consonant outline of a transliterated word, so "mohamed", "muhammad" and "محمد" all become "mhmd".
+export function nameSkeleton(word: string): string {
+  return word
+    .replace(/sh|ch/g, 's')
+    .replace(/kh|q|c/g, 'k')
+    .replace(/th/g, 't')
+    .replace(/dh/g, 'd')
+    .replace(/gh/g, 'g')
+    .replace(/ph/g, 'f')
+    .replace(/[aeiouyw]/g, '')
+    .replace(/(.)\1+/g, '$1');
+}
@@ -0,0 +1,44 @@
+import type { ModerationProviderConfig, ModerationProviderId, Post } from '@/lib/types';
+
+export interface ModerationInput {
+  title: string;
+  content?: string;
+  customFields?: { label: string; value: string }[];
+}
+
+export interface ModerationSettings {
+  forbiddenWords: string[];
+  protectedNames: string[];
+  // Words and phrases that are fine even though a rule would catch them.
+  allowlist: string[];
+  providers?: Partial<Record<ModerationProviderId, Partial<ModerationProviderConfig>>>;
+}
+
+export interface ModerationProviderResult {
+  providerId: ModerationProviderId;
+  // 0 means clean, 1 means certainly a violation.
+  score: number;
+  reasons: string[];
+  // Set when the provider could not run (e.g. the external API is down).
+  error?: string;
+}
+
+export interface ModerationProvider {
+  id: ModerationProviderId;
+  defaultConfig: ModerationProviderConfig;
+  check(input: ModerationInput, settings: ModerationSettings): ModerationProviderResult | Promise<ModerationProviderResult>;
+}
+
+export interface ModerationCheck extends ModerationProviderResult {
+  config: ModerationProviderConfig;
+  fired: boolean;
+}
+
+export interface ModerationResult {
+  status: Post['status'];
+  isFlagged: boolean;
+  // The first provider that fired, if any.
+  reason: ModerationProviderId | null;
+  matches: string[];
+  checks: ModerationCheck[];
+}
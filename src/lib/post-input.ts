@@ -0,0 +1,16 @@
+import * as z from 'zod';
+
+// The payload the create and edit forms send to /api/posts.
+export const postInputSchema = z.object({
+  title: z.string().trim().min(1, 'Name is required.'),
+  content: z.string().optional(),
+  category: z.enum(['funny', 'deep', 'random', 'advice']).optional(),
+  eventDate: z.string().datetime().optional().nullable(),
+  imageUrls: z.array(z.string()).optional(),
+  customFields: z.array(z.object({
+    label: z.string(),
+    value: z.string(),
+  })).optional(),
+});
+
+export type PostInput = z.infer<typeof postInputSchema>;
@@ -0,0 +1,48 @@
+import type { Category, Post } from '@/lib/types';
+
+// Description length that search results and link previews show without cutting off.
+const EXCERPT_LENGTH = 160;
+
+// A post as the detail page shows it: only what any visitor may see, as plain values so the
+// server-rendered page can hand it to client components.
+export interface PublicPost {
+  id: string;
+  title: string;
+  content: string;
+  category: Category | null;
+  createdAt: string | null;
+  eventDate: string | null;
+  score: number;
+  upvotes: number;
+  downvotes: number;
+  commentCount: number;
+  customFields: { label: string; value: string }[];
+  // Approved images only.
+  imageUrls: string[];
+}
+
+export function toPublicPost(id: string, post: Post): PublicPost {
+  return {
+    id,
+    title: post.title,
+    content: post.content || '',
+    category: post.category || null,
+    createdAt: post.createdAt ? post.createdAt.toDate().toISOString() : null,
+    eventDate: post.eventDate ? post.eventDate.toDate().toISOString() : null,
+    score: (post.upvotes || 0) - (post.downvotes || 0),
+    upvotes: post.upvotes || 0,
+    downvotes: post.downvotes || 0,
+    commentCount: post.commentCount || 0,
+    customFields: post.customFields || [],
+    imageUrls: (post.images || []).filter(img => img.status === 'approved').map(img => img.url),
+  };
+}
+
+// The start of the content on one line, cut at a word boundary.
+export function postExcerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= EXCERPT_LENGTH) return text;
+  const cut = text.slice(0, EXCERPT_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > EXCERPT_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
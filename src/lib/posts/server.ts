@@ -0,0 +1,15 @@
+import { cache } from 'react';
+import { adminDb } from '@/lib/firebase-admin';
+import type { Post } from '@/lib/types';
+import { toPublicPost, type PublicPost } from '.';
+
+// Loads a post for server rendering with the Admin SDK. Server-only.
+// Only approved, public posts are returned: the Admin SDK skips the rules, so anything else would
+// leak into the page and its link previews. Cached per request, so the page and its metadata
+// share one read.
+export const getPublicPost = cache(async (id: string): Promise<PublicPost | null> => {
+  const snapshot = await adminDb.collection('posts').doc(id).get();
+  const post = snapshot.data() as Post | undefined;
+  if (!post || post.status !== 'approved' || post.visibility !== 'public') return null;
+  return toPublicPost(snapshot.id, post);
+});
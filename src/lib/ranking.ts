@@ -0,0 +1,51 @@
+// Rankings for the feed's sort modes. They are stored on each post so Firestore can order by
+// them, and only change when the votes do: /api/votes recomputes them in the vote's transaction.
+
+export const FEED_SORTS = ['new', 'hot', 'top', 'controversial'] as const;
+
+export type FeedSort = typeof FEED_SORTS[number];
+
+// How many UTC days "Top" looks back, counting today. `all` has no window.
+export const TOP_WINDOWS = { day: 1, week: 7, all: null } as const;
+
+export type TopWindow = keyof typeof TOP_WINDOWS;
+
+// A post needs ten times the score to rank level with one posted this many seconds later.
+const HOT_DECAY_SECONDS = 45000;
+
+// Log of the score plus the posting time, so newer posts need fewer votes to rank as high.
+// The decay is built into the posting time, so the score never needs recomputing as time passes.
+export function hotScore(upvotes: number, downvotes: number, createdAtMs: number): number {
+  const score = upvotes - downvotes;
+  const order = Math.log10(Math.max(Math.abs(score), 1));
+  return Math.sign(score) * order + createdAtMs / 1000 / HOT_DECAY_SECONDS;
+}
+
+// High when a post has many votes split close to evenly between up and down.
+export function controversy(upvotes: number, downvotes: number): number {
+  if (upvotes <= 0 || downvotes <= 0) return 0;
+  const balance = upvotes > downvotes ? downvotes / upvotes : upvotes / downvotes;
+  return Math.pow(upvotes + downvotes, balance);
+}
+
+// UTC day the post was created, e.g. "2024-05-31". Lets "Top" filter on a window with an `in`
+// query while ordering by score, which a range filter on createdAt wouldn't allow.
+export function createdDay(createdAtMs: number): string {
+  return new Date(createdAtMs).toISOString().slice(0, 10);
+}
+
+// The `createdDay` values in a "Top" window, newest first.
+export function windowDays(window: TopWindow, now = Date.now()): string[] | null {
+  const days = TOP_WINDOWS[window];
+  if (days === null) return null;
+  return Array.from({ length: days }, (_, i) => createdDay(now - i * 24 * 60 * 60 * 1000));
+}
+
+export function rankingFields(upvotes: number, downvotes: number, createdAtMs: number) {
+  return {
+    score: upvotes - downvotes,
+    hotScore: hotScore(upvotes, downvotes, createdAtMs),
+    controversy: controversy(upvotes, downvotes),
+    createdDay: createdDay(createdAtMs),
+  };
+}
@@ -0,0 +1,39 @@
+// Per-user limits on how often posts, comments and votes can be created. Each user has a
+// `rateLimits/{uid}` document holding a fixed window per action: when the window started and
+// how many actions it has seen. Anonymous sessions get their own, lower, limits.
+
+export type RateLimitedAction = 'posts' | 'comments' | 'votes';
+
+export interface RateLimit {
+  limit: number;
+  anonymousLimit: number;
+  windowMs: number;
+}
+
+export const RATE_LIMITS: Record<RateLimitedAction, RateLimit> = {
+  posts: { limit: 5, anonymousLimit: 2, windowMs: 60 * 60 * 1000 },
+  comments: { limit: 5, anonymousLimit: 3, windowMs: 60 * 1000 },
+  votes: { limit: 30, anonymousLimit: 15, windowMs: 60 * 1000 },
+};
+
+// A window as stored in Firestore, with the timestamps converted to milliseconds.
+export interface RateWindow {
+  windowStart: number;
+  count: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; window: RateWindow }
+  | { allowed: false; retryAt: number };
+
+// Counts one more action against the current window, or starts a new window once it has passed.
+export function nextRateWindow(current: RateWindow | null, action: RateLimitedAction, isAnonymous: boolean, now = Date.now()): RateLimitDecision {
+  const { limit, anonymousLimit, windowMs } = RATE_LIMITS[action];
+  if (!current || now >= current.windowStart + windowMs) {
+    return { allowed: true, window: { windowStart: now, count: 1 } };
+  }
+  if (current.count >= (isAnonymous ? anonymousLimit : limit)) {
+    return { allowed: false, retryAt: current.windowStart + windowMs };
+  }
+  return { allowed: true, window: { windowStart: current.windowStart, count: current.count + 1 } };
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { adminDb } from '@/lib/firebase-admin';
+import { nextRateWindow, type RateLimitedAction } from '.';
+
+// Counts a post, comment or vote against the user's limit with the Admin SDK. Server-only.
+// Returns when the user may try again if they are over the limit, otherwise null.
+export async function consumeRateLimit(user: DecodedIdToken, action: RateLimitedAction): Promise<Date | null> {
+  const ref = adminDb.collection('rateLimits').doc(user.uid);
+  const isAnonymous = user.firebase.sign_in_provider === 'anonymous';
+
+  return adminDb.runTransaction(async (transaction) => {
+    const stored = (await transaction.get(ref)).data()?.[action] as { windowStart: Timestamp; count: number } | undefined;
+    const current = stored ? { windowStart: stored.windowStart.toMillis(), count: stored.count } : null;
+    const decision = nextRateWindow(current, action, isAnonymous);
+    if (!decision.allowed) {
+      return new Date(decision.retryAt);
+    }
+
+    transaction.set(ref, {
+      [action]: {
+        windowStart: Timestamp.fromMillis(decision.window.windowStart),
+        count: decision.window.count,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+    }, { merge: true });
+    return null;
+  });
+}
+
+// 429 response telling the client when it may try again.
+export function rateLimitedResponse(retryAt: Date) {
+  const retryAfterSeconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  return NextResponse.json(
+    { error: 'You are doing that too often. Please slow down.', retryAt: retryAt.toISOString() },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+  );
+}
@@ -0,0 +1,37 @@
+import type { UserRestriction } from '@/lib/types';
+
+// Any object with the Timestamp method we need, so this works with both the client and admin SDKs.
+type RestrictionLike = Omit<UserRestriction, 'expiresAt' | 'issuedAt'> & { expiresAt: { toMillis(): number } | null };
+
+// The restriction that applies right now, or null. A suspension lapses on its own once it expires.
+export function activeRestriction<T extends RestrictionLike>(restriction: T | null | undefined, now = Date.now()): T | null {
+  if (!restriction) return null;
+  if (restriction.expiresAt && restriction.expiresAt.toMillis() <= now) return null;
+  return restriction;
+}
+
+// Suspended and banned users can't post, comment, vote or report. Shadowbanned users can, unknowingly.
+export function blocksActivity(restriction: RestrictionLike | null | undefined): boolean {
+  const active = activeRestriction(restriction);
+  return !!active && active.type !== 'shadowban';
+}
+
+export function isShadowbanned(restriction: RestrictionLike | null | undefined): boolean {
+  return activeRestriction(restriction)?.type === 'shadowban';
+}
+
+// Shown to the restricted user by the API routes. The client shows its own, translated, message.
+export function restrictionMessage(restriction: RestrictionLike): string {
+  const reason = restriction.reason ? ` Reason: ${restriction.reason}` : '';
+  if (restriction.type === 'suspension' && restriction.expiresAt) {
+    return `Your account is suspended until ${new Date(restriction.expiresAt.toMillis()).toUTCString()}.${reason}`;
+  }
+  return `Your account has been banned.${reason}`;
+}
+
+// Short form of a restriction for the audit log.
+export function describeRestriction(restriction: RestrictionLike | null | undefined) {
+  return restriction
+    ? { type: restriction.type, reason: restriction.reason, expiresAt: restriction.expiresAt ? new Date(restriction.expiresAt.toMillis()).toISOString() : null }
+    : null;
+}
@@ -0,0 +1,81 @@
+import { getSocialUsername, isSocialPlatform } from './socials';
+import type { Post } from './types';
+
+// Posts are found through `searchTokens`: every word of the title, content and custom field values,
+// and every prefix of those words so a half-typed word still matches. They are written on create
+// and edit, and Firestore's `array-contains` does the lookup.
+
+// Shorter prefixes would match nearly every post.
+const MIN_PREFIX_LENGTH = 2;
+// Longer words only match in full.
+const MAX_PREFIX_LENGTH = 20;
+// Keeps a very long post well inside Firestore's index entry limit.
+const MAX_SEARCH_TOKENS = 1500;
+
+// The create and edit forms may leave the content out.
+type SearchableFields = Pick<Post, 'title' | 'customFields'> & { content?: string };
+
+// Spellings of the same Arabic letter that people type interchangeably.
+const ARABIC_VARIANTS: Record<string, string> = {
+  'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا', 'ى': 'ي', 'ئ': 'ي', 'ؤ': 'و', 'ة': 'ه', 'ـ': '',
+};
+
+// Latin letters that accent stripping leaves alone.
+const LATIN_LIGATURES: Record<string, string> = { 'ß': 'ss', 'æ': 'ae', 'œ': 'oe' };
+
+// Lower case, accents and Arabic harakat stripped, letter variants folded, so "Élodie", "elodie"
+// and "ÉLODIE" are the same word, as are "إبراهيم" and "ابراهيم".
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .normalize('NFC')
+    .split('')
+    .map(char => ARABIC_VARIANTS[char] ?? LATIN_LIGATURES[char] ?? char)
+    .join('');
+}
+
+function searchWords(text: string): string[] {
+  return normalizeSearchText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// The texts a post can be found by. Social profile links also count by their bare username,
+// so "instagram.com/jane.doe" is found by "janedoe" as well as "jane" and "doe".
+function searchableTexts(post: SearchableFields): string[] {
+  const fieldTexts = (post.customFields || []).flatMap(field => {
+    if (!isSocialPlatform(field.label)) return [field.value];
+    const username = getSocialUsername(field.label, field.value);
+    return [field.value, username, username.replace(/[^\p{L}\p{N}]+/gu, '')];
+  });
+  return [post.title, post.content || '', ...fieldTexts];
+}
+
+export function searchTokens(post: SearchableFields): string[] {
+  const tokens = new Set<string>();
+  for (const word of searchableTexts(post).flatMap(searchWords)) {
+    tokens.add(word);
+    for (let length = MIN_PREFIX_LENGTH; length < Math.min(word.length, MAX_PREFIX_LENGTH + 1); length++) {
+      tokens.add(word.slice(0, length));
+    }
+    if (tokens.size >= MAX_SEARCH_TOKENS) break;
+  }
+  return Array.from(tokens).slice(0, MAX_SEARCH_TOKENS);
+}
+
+// The words of a search, each of which a result has to contain. Single letters are dropped
+// because no prefix that short is stored.
+export function searchTerms(queryText: string): string[] {
+  return Array.from(new Set(searchWords(queryText).filter(word => word.length >= MIN_PREFIX_LENGTH)));
+}
+
+// Firestore can only filter on one array value per query, so the longest (usually rarest) term
+// goes to the query and the rest are checked here.
+export function pickQueryTerm(terms: string[]): string {
+  return terms.reduce((longest, term) => term.length > longest.length ? term : longest, terms[0]);
+}
+
+export function matchesSearch(post: Pick<Post, 'searchTokens'>, terms: string[]): boolean {
+  return terms.every(term => post.searchTokens?.includes(term));
+}
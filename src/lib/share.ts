@@ -0,0 +1,39 @@
+import type { Locale } from './i18n';
+import type { ColorTheme } from './themes';
+
+// Where a share went. Sent as utm_source so traffic from each can be told apart.
+export const SHARE_TARGETS = ['native', 'copy', 'whatsapp', 'x', 'facebook'] as const;
+
+export type ShareTarget = typeof SHARE_TARGETS[number];
+
+export type IntentTarget = Exclude<ShareTarget, 'native' | 'copy'>;
+
+interface ShareLinkOptions {
+  origin: string;
+  target: ShareTarget;
+  // The sharer's language and color theme, picked up by the post's preview card.
+  locale: Locale;
+  theme: ColorTheme;
+}
+
+export function postShareUrl(postId: string, { origin, target, locale, theme }: ShareLinkOptions): string {
+  const url = new URL(`/post/${postId}`, origin);
+  url.searchParams.set('utm_source', target);
+  url.searchParams.set('utm_medium', 'share');
+  url.searchParams.set('utm_campaign', 'post_share');
+  url.searchParams.set('lang', locale);
+  url.searchParams.set('theme', theme);
+  return url.toString();
+}
+
+// Each platform's "share this link" page, for browsers without the Web Share API.
+export function shareIntentUrl(target: IntentTarget, url: string, text: string): string {
+  switch (target) {
+    case 'whatsapp':
+      return `https://wa.me/?text=${encodeURIComponent(`${text} ${url}`)}`;
+    case 'x':
+      return `https://x.com/intent/post?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`;
+    case 'facebook':
+      return `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(url)}`;
+  }
+}
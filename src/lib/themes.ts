@@ -0,0 +1,9 @@
+// The color themes a reader can pick. Each has a `theme-<name>` class in globals.css,
+// except purple, whose colors are the :root defaults.
+export const COLOR_THEMES = ['purple', 'green', 'slate'] as const;
+
+export type ColorTheme = typeof COLOR_THEMES[number];
+
+export const DEFAULT_COLOR_THEME: ColorTheme = 'slate';
+
+export const isColorTheme = (value: unknown): value is ColorTheme => COLOR_THEMES.includes(value as ColorTheme);
@@ -8,6 +8,22 @@ export interface UserProfile {
   role: 'user' | 'admin';
   createdAt: Timestamp;
   permissions?: AdminPermissions;
+  restriction?: UserRestriction | null;
+}
+
+export const RESTRICTION_TYPES = ['suspension', 'ban', 'shadowban'] as const;
+
+export type RestrictionType = typeof RESTRICTION_TYPES[number];
+
+// Suspensions and bans stop the user posting, commenting, voting and reporting.
+// A shadowbanned user can still do all of that, but their posts and comments are only shown to them.
+export interface UserRestriction {
+  type: RestrictionType;
+  reason: string;
+  // Only suspensions expire. Bans and shadowbans last until an admin lifts them.
+  expiresAt: Timestamp | null;
+  issuedBy: string;
+  issuedAt: Timestamp;
 }
 
 export const PERMISSIONS = {
@@ -18,6 +34,11 @@ export const PERMISSIONS = {
   delete_users: 'Delete any user account from the application.',
   manage_forbidden_words: 'Manage the list of forbidden words.',
   manage_protected_names: 'Manage a list of protected names to block from post titles.',
+  manage_reports: 'Review, resolve or dismiss reports submitted by users.',
+  manage_allowlist: 'Manage the words and names that moderation should never flag.',
+  view_audit_log: 'View the log of actions taken by admins.',
+  review_appeals: 'Review appeals from authors against rejected posts and images.',
+  restrict_users: 'Suspend, ban or shadowban users, and lift those restrictions.',
 } as const;
 
 export type Permission = keyof typeof PERMISSIONS;
@@ -26,9 +47,25 @@ export type AdminPermissions = {
   [key in Permission]?: boolean;
 };
 
+export const REJECTION_REASONS = ['protected_name', 'inappropriate', 'harassment', 'personal_info', 'spam', 'low_quality', 'other'] as const;
+
+export type RejectionReason = typeof REJECTION_REASONS[number];
+
+export const APPEAL_STATUSES = ['pending', 'upheld', 'overturned'] as const;
+
+export type AppealStatus = typeof APPEAL_STATUSES[number];
+
+export const CATEGORIES = ['funny', 'deep', 'random', 'advice'] as const;
+
+export type Category = typeof CATEGORIES[number];
+
 export interface PostImage {
   url: string;
   status: 'pending' | 'approved' | 'rejected';
+  // Set by the admin who rejected the image, shown to the author.
+  rejectionReason?: RejectionReason | null;
+  rejectionNote?: string | null;
+  appealStatus?: AppealStatus | null;
 }
 
 export interface Post {
@@ -40,8 +77,9 @@ export interface Post {
   images?: PostImage[] | null;
   hasPendingImages?: boolean;
   isFlagged: boolean;
-  category: 'funny' | 'deep' | 'random' | 'advice';
-  visibility: 'public';
+  category: Category;
+  // 'shadow' posts come from shadowbanned users and are only shown to their author.
+  visibility: 'public' | 'shadow';
   upvotes: number;
   downvotes: number;
   reports: number;
@@ -52,6 +90,20 @@ export interface Post {
   eventDate?: Timestamp;
   customFields?: { label: string; value: string }[];
   commentCount?: number;
+  // Stored rankings for the feed's sort modes, see src/lib/ranking.ts.
+  score?: number;
+  hotScore?: number;
+  controversy?: number;
+  createdDay?: string;
+  // Words and word prefixes the post can be searched by, see src/lib/search.ts.
+  searchTokens?: string[];
+  // Why the post was rejected by an admin, shown to the author in "My posts".
+  rejectionReason?: RejectionReason | null;
+  rejectionNote?: string | null;
+  // The moderation provider that flagged or rejected the post automatically.
+  moderationReason?: ModerationProviderId | null;
+  // Status of the author's latest appeal against the rejection, if any.
+  appealStatus?: AppealStatus | null;
 }
 
 export interface Comment {
@@ -61,8 +113,20 @@ export interface Comment {
   authorDisplayName: string; // 'Anonymous' or user.displayName
   content: string;
   createdAt: Timestamp;
+  // Missing on comments written before shadowbans existed until /api/posts/reindex backfills it.
+  visibility?: 'public' | 'shadow';
+  // The comment this one replies to; missing or null for top-level comments.
+  parentId?: string | null;
+  // 0 for top-level comments, at most MAX_COMMENT_DEPTH.
+  depth?: number;
+  // Set on replies to a comment that was already at MAX_COMMENT_DEPTH. The reply is attached
+  // next to it instead, and names who it answers.
+  replyToName?: string | null;
 }
 
+// How deep replies nest below a top-level comment.
+export const MAX_COMMENT_DEPTH = 2;
+
 
 export interface Vote {
   id: string;
@@ -72,16 +136,113 @@ export interface Vote {
   createdAt: Timestamp;
 }
 
+export const REPORT_REASONS = ['spam', 'harassment', 'hate', 'personal_info', 'inappropriate', 'other'] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
 export interface Report {
   id:string;
+  targetType: 'post' | 'comment';
   postId: string;
+  commentId?: string | null;
   userId: string;
-  reason: string;
-  status: 'pending' | 'resolved';
+  reason: ReportReason;
+  details?: string;
+  status: 'pending' | 'resolved' | 'dismissed';
+  createdAt: Timestamp;
+  reviewedBy?: string;
+  reviewedAt?: Timestamp;
+}
+
+// An author contesting the rejection of their post or of one of its images.
+export interface Appeal {
+  id: string;
+  targetType: 'post' | 'image';
+  postId: string;
+  postTitle: string;
+  imageUrl: string | null;
+  authorUid: string;
+  message: string;
+  // The decision being contested, copied when the appeal is filed.
+  rejectionReason: RejectionReason | null;
+  moderationReason: ModerationProviderId | null;
+  status: AppealStatus;
+  createdAt: Timestamp;
+  reviewedBy?: string;
+  reviewedAt?: Timestamp;
+  resolutionNote?: string | null;
+}
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: 'appeal_resolved';
+  postId: string;
+  postTitle: string;
+  appealId: string;
+  outcome: Exclude<AppealStatus, 'pending'>;
+  note: string | null;
+  read: boolean;
   createdAt: Timestamp;
 }
 
+// Number of distinct user reports that sends an approved post back to review.
+export const DEFAULT_REPORT_THRESHOLD = 5;
+
+export const MODERATION_PROVIDER_IDS = ['protected_names', 'forbidden_words', 'local_classifier', 'external_api'] as const;
+
+export type ModerationProviderId = typeof MODERATION_PROVIDER_IDS[number];
+
+export interface ModerationProviderConfig {
+    enabled: boolean;
+    // A provider fires when its score (0 to 1) reaches this value.
+    threshold: number;
+    action: 'reject' | 'review';
+}
+
+// Used for any provider (or field) not overridden in settings/config.moderationProviders.
+// The external API is off by default: it flagged too many normal names as bad words.
+export const DEFAULT_MODERATION_PROVIDERS: Record<ModerationProviderId, ModerationProviderConfig> = {
+    protected_names: { enabled: true, threshold: 1, action: 'reject' },
+    forbidden_words: { enabled: true, threshold: 1, action: 'review' },
+    local_classifier: { enabled: true, threshold: 0.7, action: 'review' },
+    external_api: { enabled: false, threshold: 0.5, action: 'review' },
+};
+
 export interface AppSettings {
     id?: string;
     forbiddenWords: string[];
+    reportThreshold?: number;
+    moderationProviders?: Partial<Record<ModerationProviderId, Partial<ModerationProviderConfig>>>;
+}
+
+export const AUDIT_ACTIONS = [
+    'post_status_changed',
+    'post_deleted',
+    'image_decision',
+    'user_deleted',
+    'admin_granted',
+    'admin_revoked',
+    'permissions_updated',
+    'report_decision',
+    'settings_updated',
+    'appeal_resolved',
+    'user_restricted',
+    'user_restriction_lifted',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Append-only record of an admin action. `before` and `after` hold only the fields that changed.
+export interface AuditLogEntry {
+    id: string;
+    actorUid: string;
+    actorEmail: string | null;
+    action: AuditAction;
+    targetType: 'post' | 'user' | 'report' | 'settings' | 'appeal';
+    targetId: string;
+    targetLabel?: string | null;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    createdAt: Timestamp;
 }